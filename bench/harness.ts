@@ -0,0 +1,129 @@
+/**
+ * Options for a Bench.
+ */
+export interface BenchOptions {
+    /**
+     * How long every task is measured, in milliseconds. Defaults to 500.
+     */
+    time?: number,
+    /**
+     * How long every task runs before it is measured, so that it is optimized by the JIT. Defaults to 100.
+     */
+    warmupTime?: number,
+    /**
+     * How many calls are timed together as one sample, so that the timer resolution does not dominate. Defaults to 1000.
+     */
+    batchSize?: number
+}
+
+/**
+ * The measurements of a single task.
+ */
+export interface TaskResult {
+    name: string,
+    opsPerSecond: number,
+    averageNs: number,
+    marginPercent: number,
+    samples: number
+}
+
+interface Task {
+    name: string,
+    fn: () => unknown
+}
+
+/**
+ * Keeps the results of the benchmarked functions alive, so that the JIT cannot eliminate them as dead code.
+ */
+let sink: unknown;
+
+/**
+ * A minimal, dependency-free benchmark runner with an API modeled on tinybench.
+ *
+ * ```
+ * const bench = new Bench({ time: 500 });
+ * bench.add("try/catch", () => parse(input));
+ * bench.run();
+ * console.table(bench.table());
+ * ```
+ */
+export class Bench {
+    readonly results: TaskResult[] = [];
+    private readonly tasks: Task[] = [];
+    private readonly time: number;
+    private readonly warmupTime: number;
+    private readonly batchSize: number;
+
+    constructor(options: BenchOptions = {}) {
+        this.time = options.time ?? 500;
+        this.warmupTime = options.warmupTime ?? 100;
+        this.batchSize = options.batchSize ?? 1000;
+    }
+
+    /**
+     * Registers a task.
+     *
+     * @param name - The name of the task, as shown in the table.
+     * @param fn - The synchronous function to measure.
+     * @returns The Bench, so that calls can be chained.
+     */
+    add(name: string, fn: () => unknown): this {
+        this.tasks.push({ name, fn });
+        return this;
+    }
+
+    /**
+     * Warms up and measures every task in the order they were added.
+     *
+     * @returns The measurements of every task.
+     */
+    run(): TaskResult[] {
+        for (const task of this.tasks) {
+            this.sample(task, this.warmupTime);
+            const samples = this.sample(task, this.time);
+            this.results.push(summarize(task.name, samples));
+        }
+        return this.results;
+    }
+
+    /**
+     * Formats the measurements for console.table.
+     *
+     * @returns One row per task.
+     */
+    table(): Record<string, string | number>[] {
+        return this.results.map(result => ({
+            "Task name": result.name,
+            "ops/sec": Math.round(result.opsPerSecond).toLocaleString("en-US"),
+            "Average (ns)": result.averageNs.toFixed(2),
+            "Margin": `±${result.marginPercent.toFixed(2)}%`,
+            "Samples": result.samples,
+        }));
+    }
+
+    /**
+     * Calls the task in batches for the given time, returning the average duration of one call in every batch, in nanoseconds.
+     */
+    private sample(task: Task, time: number): number[] {
+        const samples: number[] = [];
+        const deadline = process.hrtime.bigint() + BigInt(Math.round(time * 1e6));
+        let now = process.hrtime.bigint();
+        do {
+            const start = now;
+            for (let i = 0; i < this.batchSize; i++) {
+                sink = task.fn();
+            }
+            now = process.hrtime.bigint();
+            samples.push(Number(now - start) / this.batchSize);
+        } while (now < deadline);
+        return samples;
+    }
+}
+
+function summarize(name: string, samples: number[]): TaskResult {
+    const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    const variance = samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / Math.max(samples.length - 1, 1);
+    // Relative margin of error at a 95% confidence level
+    const margin = 1.96 * Math.sqrt(variance / samples.length);
+    return { name, opsPerSecond: 1e9 / mean, averageNs: mean, marginPercent: margin / mean * 100, samples: samples.length };
+}
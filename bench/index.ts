@@ -0,0 +1,169 @@
+import { Result } from "../src/index";
+import { Bench } from "./harness";
+import { LegacyResult } from "./legacy";
+
+/**
+ * Compares the current Result with plain try/catch and with the previous representation of Result (LegacyResult),
+ * on the kind of hot loops which handle many items. Every suite uses the same fixed inputs, so runs are reproducible.
+ *
+ * Usage: `npm run bench`, optionally followed by a substring of the suites to run, e.g. `npm run bench -- parse`.
+ */
+
+interface InvalidNumber {
+    kind: "InvalidNumber",
+    input: string
+}
+
+/**
+ * A deterministic pseudo-random generator (mulberry32), so that every run uses the same inputs.
+ */
+function seeded(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+const random = seeded(42);
+// 1,000 numbers, of which roughly 10% are invalid
+const inputs = Array.from({ length: 1000 }, () => random() < 0.1 ? "n/a" : String(Math.floor(random() * 1000)));
+
+function parseOrThrow(input: string): number {
+    const value = Number(input);
+    if (Number.isNaN(value)) {
+        throw new Error(`Invalid number: ${input}`);
+    }
+    return value;
+}
+
+function parseResult(input: string): Result<number, InvalidNumber> {
+    const value = Number(input);
+    return Number.isNaN(value) ? Result.Err({ kind: "InvalidNumber", input }) : Result.Ok(value);
+}
+
+function parseLegacy(input: string): LegacyResult<number, InvalidNumber> {
+    const value = Number(input);
+    return Number.isNaN(value) ? LegacyResult.Err({ kind: "InvalidNumber", input }) : LegacyResult.Ok(value);
+}
+
+function checkOrThrow(value: number): void {
+    if (value > 990) {
+        throw new Error(`Too large: ${value}`);
+    }
+}
+
+function checkResult(value: number): Result<void, string> {
+    return value > 990 ? Result.Err("Too large") : Result.Ok(undefined);
+}
+
+function checkLegacy(value: number): LegacyResult<void, string> {
+    return value > 990 ? LegacyResult.Err("Too large") : LegacyResult.Ok(undefined);
+}
+
+const suites: Record<string, (bench: Bench) => void> = {
+    "parse 1,000 inputs, 10% invalid": bench => bench
+        .add("try/catch", () => {
+            let sum = 0;
+            for (const input of inputs) {
+                try {
+                    sum += parseOrThrow(input);
+                } catch {
+                    sum -= 1;
+                }
+            }
+            return sum;
+        })
+        .add("Result", () => {
+            let sum = 0;
+            for (const input of inputs) {
+                sum += parseResult(input).unwrapOr(-1);
+            }
+            return sum;
+        })
+        .add("LegacyResult", () => {
+            let sum = 0;
+            for (const input of inputs) {
+                sum += parseLegacy(input).unwrapOr(-1);
+            }
+            return sum;
+        }),
+
+    "pipeline of map and andThen over 1,000 inputs": bench => bench
+        .add("try/catch", () => {
+            let sum = 0;
+            for (const input of inputs) {
+                try {
+                    const value = parseOrThrow(input) * 2;
+                    checkOrThrow(value / 2);
+                    sum += value + 1;
+                } catch {
+                    sum -= 1;
+                }
+            }
+            return sum;
+        })
+        .add("Result", () => {
+            let sum = 0;
+            for (const input of inputs) {
+                sum += parseResult(input)
+                    .map(value => value * 2)
+                    .andThen(value => value / 2 > 990 ? Result.Err<number, InvalidNumber>({ kind: "InvalidNumber", input }) : Result.Ok(value))
+                    .map(value => value + 1)
+                    .unwrapOr(-1);
+            }
+            return sum;
+        })
+        .add("LegacyResult", () => {
+            let sum = 0;
+            for (const input of inputs) {
+                sum += parseLegacy(input)
+                    .map(value => value * 2)
+                    .andThen(value => value / 2 > 990 ? LegacyResult.Err<number, InvalidNumber>({ kind: "InvalidNumber", input }) : LegacyResult.Ok(value))
+                    .map(value => value + 1)
+                    .unwrapOr(-1);
+            }
+            return sum;
+        }),
+
+    "1,000 checks returning Ok(undefined)": bench => bench
+        .add("try/catch", () => {
+            let failures = 0;
+            for (let i = 0; i < 1000; i++) {
+                try {
+                    checkOrThrow(i);
+                } catch {
+                    failures++;
+                }
+            }
+            return failures;
+        })
+        .add("Result", () => {
+            let failures = 0;
+            for (let i = 0; i < 1000; i++) {
+                failures += checkResult(i).match({ Ok: () => 0, Err: () => 1 });
+            }
+            return failures;
+        })
+        .add("LegacyResult", () => {
+            let failures = 0;
+            for (let i = 0; i < 1000; i++) {
+                failures += checkLegacy(i).match({ Ok: () => 0, Err: () => 1 });
+            }
+            return failures;
+        }),
+};
+
+const filter = process.argv[2] ?? "";
+console.log(`Node ${process.version} on ${process.platform}/${process.arch}`);
+for (const [name, register] of Object.entries(suites)) {
+    if (!name.includes(filter)) {
+        continue;
+    }
+    const bench = new Bench({ time: 1000, warmupTime: 200, batchSize: 10 });
+    register(bench);
+    bench.run();
+    console.log(`\n${name}`);
+    console.table(bench.table());
+}
@@ -0,0 +1,62 @@
+import { reportErr } from "../src/hooks";
+
+/**
+ * A frozen copy of the previous representation of Result, where every instance wraps a separate ResultValue object,
+ * reduced to the methods which are benchmarked. It is only kept as a baseline for the benchmarks.
+ */
+
+enum ResultType {
+    Ok = "Ok",
+    Err = "Err"
+}
+
+type ResultValue<T, E> = { type: ResultType.Ok, value: T } | { type: ResultType.Err, err: E };
+
+export class LegacyResult<T, E> {
+    private resultValue: ResultValue<T, E>;
+
+    private constructor(resultValue: ResultValue<T, E>) {
+        this.resultValue = resultValue;
+    }
+
+    static Ok<T, E>(value: T): LegacyResult<T, E> {
+        return new LegacyResult<T, E>({ type: ResultType.Ok, value });
+    }
+
+    static Err<T, E>(err: E): LegacyResult<T, E> {
+        reportErr(err);
+        return new LegacyResult<T, E>({ type: ResultType.Err, err });
+    }
+
+    isOk(): boolean {
+        return this.resultValue.type === ResultType.Ok;
+    }
+
+    unwrapOr(defaultValue: T): T {
+        if (this.resultValue.type === ResultType.Err) {
+            return defaultValue;
+        }
+        return this.resultValue.value;
+    }
+
+    andThen<U>(op: (value: T) => LegacyResult<U, E>): LegacyResult<U, E> {
+        if (this.resultValue.type === ResultType.Err) {
+            return this as unknown as LegacyResult<U, E>;
+        }
+        return op(this.resultValue.value);
+    }
+
+    map<U>(op: (value: T) => U): LegacyResult<U, E> {
+        if (this.resultValue.type === ResultType.Err) {
+            return this as unknown as LegacyResult<U, E>;
+        }
+        return LegacyResult.Ok<U, E>(op(this.resultValue.value));
+    }
+
+    match<U>(arms: { Ok: (value: T) => U, Err: (err: E) => U }): U {
+        if (this.resultValue.type === ResultType.Err) {
+            return arms.Err(this.resultValue.err);
+        }
+        return arms.Ok(this.resultValue.value);
+    }
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from "tsup";
+
+export default defineConfig({
+    entry: ["bench/index.ts"],
+    format: ["esm"],
+    outDir: "bench/dist",
+    platform: "node",
+    clean: true,
+});
@@ -0,0 +1,449 @@
+import { ErrTag, MatchArms, MatchErrArms, Result, TaggedWith, errTag } from "./result";
+import { Option } from "./option";
+import { ContextError } from "./errors";
+
+/**
+ * A value that is either available immediately or once a promise settles.
+ */
+export type Awaitable<T> = T | PromiseLike<T>;
+
+/**
+ * An asynchronous Result that settles into a Result<T, E>.
+ *
+ * AsyncResult is thenable, so it can be awaited directly to obtain the underlying Result,
+ * and it exposes the same combinators as Result, each of which accepts asynchronous callbacks.
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+    private promise: Promise<Result<T, E>>;
+
+    private constructor(promise: PromiseLike<Result<T, E>>) {
+        this.promise = Promise.resolve(promise);
+    }
+
+    /**
+     * Creates a new AsyncResult from a Result, or a promise which resolves to a Result.
+     *
+     * The promise is expected not to reject; use Result.fromPromise for promises which may reject.
+     *
+     * @param result - The Result or promise of a Result to wrap.
+     * @returns An AsyncResult which settles into the provided Result.
+     */
+    static from<T, E>(result: Awaitable<Result<T, E>>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(Promise.resolve(result));
+    }
+
+    /**
+     * Creates a new Ok AsyncResult with the provided value.
+     *
+     * @param value - The success value to store.
+     * @returns An AsyncResult representing a successful outcome.
+     */
+    static Ok<T, E>(value: T): AsyncResult<T, E> {
+        return AsyncResult.from(Result.Ok<T, E>(value));
+    }
+
+    /**
+     * Creates a new Err AsyncResult with the provided error.
+     *
+     * @param err - The error to store.
+     * @returns An AsyncResult representing a failure.
+     */
+    static Err<T, E>(err: E): AsyncResult<T, E> {
+        return AsyncResult.from(Result.Err<T, E>(err));
+    }
+
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the underlying Result.
+     */
+    then<R1 = Result<T, E>, R2 = never>(
+        onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.promise.then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Unwraps the Result, resolving to the contained value if it is an Ok variant.
+     *
+     * @throws Rejects if the Result is an Err variant.
+     * @returns A promise of the contained value if Ok.
+     */
+    async unwrap(): Promise<T> {
+        return (await this.promise).unwrap();
+    }
+
+    /**
+     * Unwraps the Result, resolving to the contained value if it is Ok.
+     * If the Result is Err, resolves to the result of the provided callback which receives the error.
+     *
+     * @param op - A callback function that receives the error and returns a fallback value.
+     * @returns A promise of the contained value if Ok, or of the fallback value produced by the callback if Err.
+     */
+    async unwrapOrElse(op: (err: E) => Awaitable<T>): Promise<T> {
+        const result = await this.promise;
+        if (result.isErr()) {
+            return op(result.error);
+        }
+        return result.unwrapUnchecked();
+    }
+
+    /**
+     * Unwraps the Result, resolving to the contained error if it is an Err variant.
+     *
+     * @throws Rejects if the Result is an Ok variant.
+     * @returns A promise of the contained error if Err.
+     */
+    async unwrapErr(): Promise<E> {
+        return (await this.promise).unwrapErr();
+    }
+
+    /**
+     * Unwraps the Result, resolving to the contained value if it is Ok.
+     * Otherwise, resolves to the provided default value.
+     *
+     * @param defaultValue - The default value to return if the Result is Err.
+     * @returns A promise of the contained value if Ok, or of the default value if Err.
+     */
+    async unwrapOr(defaultValue: T): Promise<T> {
+        return (await this.promise).unwrapOr(defaultValue);
+    }
+
+    /**
+     * Unwraps the Result, resolving to the contained value if it is Ok.
+     * If it is Err, rejects with an Error with the provided custom message and the contained error.
+     *
+     * @param msg - Custom message to include if the Result is Err.
+     * @throws Rejects with the provided message if the Result is Err.
+     * @returns A promise of the contained value if Ok.
+     */
+    async expect(msg: string): Promise<T> {
+        return (await this.promise).expect(msg);
+    }
+
+    /**
+     * Unwraps the Result, resolving to the contained error if it is Err.
+     * If it is Ok, rejects with an Error with the provided custom message and the contained value.
+     *
+     * @param msg - Custom message to include if the Result is Ok.
+     * @throws Rejects with the provided message if the Result is Ok.
+     * @returns A promise of the contained error if Err.
+     */
+    async expectErr(msg: string): Promise<E> {
+        return (await this.promise).expectErr(msg);
+    }
+
+    /**
+     * Resolves to the contained value if the Result is Ok, or null if it is Err.
+     *
+     * @returns A promise of the contained value if Ok, otherwise of null.
+     */
+    async ok(): Promise<T | null> {
+        return (await this.promise).ok();
+    }
+
+    /**
+     * Resolves to an Option of the success value, discarding the error if any.
+     *
+     * @returns A promise of Some containing the value if Ok, otherwise of None.
+     */
+    async okOption(): Promise<Option<T>> {
+        return (await this.promise).okOption();
+    }
+
+    /**
+     * Checks if the Result is an Ok variant.
+     *
+     * @returns A promise of true if the Result is Ok, otherwise of false.
+     */
+    async isOk(): Promise<boolean> {
+        return (await this.promise).isOk();
+    }
+
+    /**
+     * Checks if the Result is Ok and the contained value satisfies the provided predicate.
+     *
+     * @param predicate - A function to test the contained value.
+     * @returns A promise of true if the Result is Ok and the value passes the predicate, otherwise of false.
+     */
+    async isOkAnd(predicate: (value: T) => Awaitable<boolean>): Promise<boolean> {
+        const result = await this.promise;
+        return result.isOk() && predicate(result.value);
+    }
+
+    /**
+     * Resolves to the contained error if the Result is Err, or null if it is Ok.
+     *
+     * @returns A promise of the contained error if Err, otherwise of null.
+     */
+    async err(): Promise<E | null> {
+        return (await this.promise).err();
+    }
+
+    /**
+     * Resolves to an Option of the error, discarding the success value if any.
+     *
+     * @returns A promise of Some containing the error if Err, otherwise of None.
+     */
+    async errOption(): Promise<Option<E>> {
+        return (await this.promise).errOption();
+    }
+
+    /**
+     * Checks if the Result is an Err variant.
+     *
+     * @returns A promise of true if the Result is Err, otherwise of false.
+     */
+    async isErr(): Promise<boolean> {
+        return (await this.promise).isErr();
+    }
+
+    /**
+     * Checks if the Result is Err and the contained error satisfies the provided predicate.
+     *
+     * @param predicate - A function to test the contained error.
+     * @returns A promise of true if the Result is Err and the error passes the predicate, otherwise of false.
+     */
+    async isErrAnd(predicate: (err: E) => Awaitable<boolean>): Promise<boolean> {
+        const result = await this.promise;
+        return result.isErr() && predicate(result.error);
+    }
+
+    /**
+     * Returns the current Result if it is Ok, or a provided default Result if it is Err.
+     *
+     * @param res - A default Result to return if the current Result is Err.
+     * @returns An AsyncResult of the current Result if Ok, otherwise of the provided default Result.
+     */
+    or(res: Awaitable<Result<T, E>>): AsyncResult<T, E> {
+        return this.orElse(() => res);
+    }
+
+    /**
+     * Returns the current Result if it is Ok, or the Result returned by a callback if it is Err.
+     *
+     * @param op - A callback function that receives the error and returns an alternative Result.
+     * @returns An AsyncResult of the current Result if Ok, otherwise of the alternative Result produced by the callback.
+     */
+    orElse(op: (error: E) => Awaitable<Result<T, E>>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(this.promise.then(result => {
+            if (result.isErr()) {
+                return op(result.error);
+            }
+            return result;
+        }));
+    }
+
+    /**
+     * If the Result is Ok, returns the provided Result.
+     * If the Result is Err, returns the contained Err.
+     *
+     * @param res - A Result to return if the current Result is Ok.
+     * @returns An AsyncResult of the provided Result if the current Result is Ok, or of the contained error if Err.
+     */
+    and<U>(res: Awaitable<Result<U, E>>): AsyncResult<U, E> {
+        return this.andThen(() => res);
+    }
+
+    /**
+     * If the Result is Ok, calls the provided function with the contained value and returns its Result.
+     * If the Result is Err, returns the contained Err.
+     *
+     * @param op - A function that takes the contained value and returns an alternative Result.
+     * @returns An AsyncResult of the Result returned by the callback if Ok, or of the contained error if Err.
+     */
+    andThen<U>(op: (value: T) => Awaitable<Result<U, E>>): AsyncResult<U, E> {
+        return new AsyncResult<U, E>(this.promise.then(result => {
+            if (result.isErr()) {
+                return result as unknown as Result<U, E>;
+            }
+            return op(result.unwrapUnchecked());
+        }));
+    }
+
+    /**
+     * Transforms an Ok value by applying the provided function to it.
+     * If the Result is Err, it is left unchanged.
+     *
+     * @param op - A function that transforms the contained value.
+     * @returns An AsyncResult containing the transformed value if Ok, or the original Err.
+     */
+    map<U>(op: (value: T) => Awaitable<U>): AsyncResult<U, E> {
+        return this.andThen(async value => Result.Ok<U, E>(await op(value)));
+    }
+
+    /**
+     * Maps an Ok value using the provided function, or returns a default value if the Result is Err.
+     *
+     * @param defaultValue - The default value to return if the Result is Err.
+     * @param op - A function that transforms the contained value.
+     * @returns A promise of the transformed value if Ok, or of the default value if Err.
+     */
+    async mapOr<U>(defaultValue: U, op: (value: T) => Awaitable<U>): Promise<U> {
+        const result = await this.promise;
+        if (result.isErr()) {
+            return defaultValue;
+        }
+        return op(result.unwrapUnchecked());
+    }
+
+    /**
+     * Maps an Ok value using the provided function, or computes a default value using a callback if the Result is Err.
+     *
+     * @param defaultOp - A function that computes a default value from the contained error.
+     * @param op - A function that transforms the contained value.
+     * @returns A promise of the transformed value if Ok, or of the computed default value if Err.
+     */
+    async mapOrElse<U>(defaultOp: (err: E) => Awaitable<U>, op: (value: T) => Awaitable<U>): Promise<U> {
+        const result = await this.promise;
+        if (result.isErr()) {
+            return defaultOp(result.error);
+        }
+        return op(result.unwrapUnchecked());
+    }
+
+    /**
+     * Calls the handler matching the variant of the Result with the contained value or error.
+     *
+     * @param arms - An `Ok` handler receiving the contained value and an `Err` handler receiving the contained error.
+     * @returns A promise of the value returned by the matching handler.
+     */
+    async match<U>(arms: MatchArms<T, E, Awaitable<U>>): Promise<U> {
+        return (await this.promise).match(arms);
+    }
+
+    /**
+     * Calls the handler matching the variant of the Result, dispatching Err on the tag of a discriminated union of errors.
+     *
+     * @param arms - An `Ok` handler, one handler per error tag and an optional `_` fallback handler.
+     * @throws Rejects if the Result is Err and no handler matches its tag.
+     * @returns A promise of the value returned by the matching handler.
+     */
+    async matchErr<U>(arms: MatchErrArms<T, E, Awaitable<U>>): Promise<U> {
+        return (await this.promise).matchErr(arms);
+    }
+
+    /**
+     * Recovers from the errors carrying the given tag with the Result returned by a callback, similar to orElse.
+     * The handled variant is removed from the error type, other errors and Ok are left unchanged.
+     *
+     * @param tag - The tag of the errors to handle, read from their `_tag` or `kind` property.
+     * @param op - A callback function that receives the matching error and returns an alternative Result.
+     * @returns An AsyncResult of the alternative Result produced by the callback if the error matches, otherwise of the current Result.
+     */
+    catchTag<Tag extends ErrTag<E>, U, F>(tag: Tag, op: (err: Extract<E, TaggedWith<Tag>>) => Awaitable<Result<U, F>>): AsyncResult<T | U, Exclude<E, TaggedWith<Tag>> | F> {
+        return new AsyncResult(this.promise.then(result => {
+            if (result.isErr() && errTag(result.error) === tag) {
+                return op(result.error as Extract<E, TaggedWith<Tag>>);
+            }
+            return result as unknown as Result<T, Exclude<E, TaggedWith<Tag>>>;
+        }));
+    }
+
+    /**
+     * Transforms an Err value by applying the provided function to it.
+     * If the Result is Ok, it is left unchanged.
+     *
+     * @param op - A function that transforms the contained error.
+     * @returns An AsyncResult with the transformed error if Err, or the original Ok.
+     */
+    mapErr<F>(op: (err: E) => Awaitable<F>): AsyncResult<T, F> {
+        return new AsyncResult<T, F>(this.promise.then(async result => {
+            if (result.isErr()) {
+                return Result.derivedErr<T, F>(await op(result.error));
+            }
+            return result as unknown as Result<T, F>;
+        }));
+    }
+
+    /**
+     * Calls the provided function with the contained value if the Result is Ok, for side effects such as logging.
+     * An asynchronous callback is awaited before the AsyncResult settles.
+     *
+     * @param op - A function that receives the contained value.
+     * @returns An AsyncResult of the current Result, unchanged.
+     */
+    inspect(op: (value: T) => Awaitable<void>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(this.promise.then(async result => {
+            if (result.isOk()) {
+                await op(result.value);
+            }
+            return result;
+        }));
+    }
+
+    /**
+     * Calls the provided function with the contained error if the Result is Err, for side effects such as logging.
+     * An asynchronous callback is awaited before the AsyncResult settles.
+     *
+     * @param op - A function that receives the contained error.
+     * @returns An AsyncResult of the current Result, unchanged.
+     */
+    inspectErr(op: (err: E) => Awaitable<void>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(this.promise.then(async result => {
+            if (result.isErr()) {
+                await op(result.error);
+            }
+            return result;
+        }));
+    }
+
+    /**
+     * Alias of inspect.
+     *
+     * @param op - A function that receives the contained value.
+     * @returns An AsyncResult of the current Result, unchanged.
+     */
+    tap(op: (value: T) => Awaitable<void>): AsyncResult<T, E> {
+        return this.inspect(op);
+    }
+
+    /**
+     * Alias of inspectErr.
+     *
+     * @param op - A function that receives the contained error.
+     * @returns An AsyncResult of the current Result, unchanged.
+     */
+    tapErr(op: (err: E) => Awaitable<void>): AsyncResult<T, E> {
+        return this.inspectErr(op);
+    }
+
+    /**
+     * Wraps an Err value in a ContextError with the provided message, keeping the original error as its cause.
+     * If the Result is Ok, it is left unchanged.
+     *
+     * @param msg - A message describing what was being done when the error occurred.
+     * @returns An AsyncResult with the wrapped error if Err, or the original Ok.
+     */
+    context(msg: string): AsyncResult<T, ContextError<E>> {
+        return this.mapErr(err => new ContextError(msg, err));
+    }
+
+    /**
+     * Wraps an Err value in a ContextError with a message computed from the error, keeping the original error as its cause.
+     * If the Result is Ok, the callback is not called and the Result is left unchanged.
+     *
+     * @param op - A function that computes the message from the contained error.
+     * @returns An AsyncResult with the wrapped error if Err, or the original Ok.
+     */
+    withContext(op: (err: E) => string): AsyncResult<T, ContextError<E>> {
+        return this.mapErr(err => new ContextError(op(err), err));
+    }
+
+    /**
+     * Lets the AsyncResult be used with `yield* asyncResult.bind()` inside an async generator passed to Result.gen.
+     *
+     * @returns An async generator which yields the Result if Err and returns the contained value if Ok.
+     */
+    async *bind(): AsyncGenerator<Result<never, E>, T, unknown> {
+        return yield* (await this.promise).bind();
+    }
+
+    /**
+     * Iterates over the contained value once the AsyncResult settles, so that it can be used with for await...of.
+     *
+     * @returns An async iterator which yields the value once if Ok, and nothing if Err.
+     */
+    async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        yield* await this.promise;
+    }
+}
@@ -0,0 +1,173 @@
+import { Result } from "./result";
+
+/**
+ * Decides whether two values are equal.
+ */
+export type Equality<T> = (a: T, b: T) => boolean;
+
+/**
+ * Orders two values, returning a negative number if the first one is less, a positive number if it is greater, and 0 otherwise.
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+function isObject(value: unknown): value is object {
+    return typeof value === "object" && value !== null;
+}
+
+/**
+ * Compares two values structurally.
+ *
+ * Primitives are compared with Object.is, Dates by their time and RegExps by their source and flags.
+ * Arrays, plain objects and class instances are equal if they share a prototype and their own enumerable properties are equal,
+ * which covers Results and Options. Errors must also share their message.
+ * Map keys and Set elements are looked up by identity, like Map.has and Set.has do.
+ */
+export function deepEqual(a: unknown, b: unknown, seen = new Map<object, object>()): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (!isObject(a) || !isObject(b) || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+    if (seen.get(a) === b) {
+        return true;
+    }
+    seen.set(a, b);
+    if (a instanceof Date) {
+        return Object.is(a.getTime(), (b as Date).getTime());
+    }
+    if (a instanceof RegExp) {
+        return String(a) === String(b);
+    }
+    if (a instanceof Map) {
+        const other = b as Map<unknown, unknown>;
+        return a.size === other.size && [...a].every(([key, value]) => other.has(key) && deepEqual(value, other.get(key), seen));
+    }
+    if (a instanceof Set) {
+        const other = b as Set<unknown>;
+        return a.size === other.size && [...a].every(value => other.has(value));
+    }
+    if (a instanceof Error && a.message !== (b as Error).message) {
+        return false;
+    }
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) {
+        return false;
+    }
+    return keys.every(key => Object.prototype.hasOwnProperty.call(b, key)
+        && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], seen));
+}
+
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function combine(hash: number, next: number): number {
+    return (Math.imul(hash, 31) + next) >>> 0;
+}
+
+/**
+ * Hashes a value structurally, so that values which are equal under deepEqual have the same hash.
+ */
+export function deepHash(value: unknown, seen = new Set<object>()): number {
+    if (!isObject(value)) {
+        return hashString(`${typeof value}:${typeof value === "symbol" ? value.description : String(value)}`);
+    }
+    if (seen.has(value)) {
+        return 0;
+    }
+    seen.add(value);
+    if (value instanceof Date || value instanceof RegExp) {
+        return hashString(`${value.constructor.name}:${String(value instanceof Date ? value.getTime() : value)}`);
+    }
+    if (Array.isArray(value)) {
+        return value.reduce<number>((hash, item) => combine(hash, deepHash(item, seen)), hashString("array"));
+    }
+    if (value instanceof Map) {
+        // Entries are summed, so that the hash does not depend on insertion order
+        let hash = hashString("map");
+        value.forEach((item, key) => {
+            hash = (hash + combine(deepHash(key, seen), deepHash(item, seen))) >>> 0;
+        });
+        return hash;
+    }
+    if (value instanceof Set) {
+        let hash = hashString("set");
+        value.forEach(item => {
+            hash = (hash + deepHash(item, seen)) >>> 0;
+        });
+        return hash;
+    }
+    let hash = value instanceof Error ? hashString(value.message) : hashString("object");
+    for (const [key, item] of Object.entries(value)) {
+        hash = (hash + combine(hashString(key), deepHash(item, seen))) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * Orders two values. Arrays are compared lexicographically, Results with Result.compare,
+ * and any other values with the < and > operators, which treats incomparable values as equal.
+ */
+export function defaultCompare(a: unknown, b: unknown): number {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const order = defaultCompare(a[i], b[i]);
+            if (order !== 0) {
+                return order;
+            }
+        }
+        return a.length - b.length;
+    }
+    if (a instanceof Result && b instanceof Result) {
+        return Result.compare(a, b);
+    }
+    if ((a as number) < (b as number)) {
+        return -1;
+    }
+    return (a as number) > (b as number) ? 1 : 0;
+}
+
+/**
+ * Clones a value deeply, keeping the prototype of every class instance, so that Results, Options and errors stay intact.
+ * Functions are not cloned, and cyclic references are preserved.
+ */
+export function deepClone<T>(value: T, seen = new Map<object, unknown>()): T {
+    if (!isObject(value)) {
+        return value;
+    }
+    if (seen.has(value)) {
+        return seen.get(value) as T;
+    }
+    if (value instanceof Date) {
+        return new Date(value.getTime()) as T;
+    }
+    if (value instanceof RegExp) {
+        return new RegExp(value.source, value.flags) as T;
+    }
+    if (value instanceof Map) {
+        const clone = new Map();
+        seen.set(value, clone);
+        value.forEach((item, key) => clone.set(deepClone(key, seen), deepClone(item, seen)));
+        return clone as T;
+    }
+    if (value instanceof Set) {
+        const clone = new Set();
+        seen.set(value, clone);
+        value.forEach(item => clone.add(deepClone(item, seen)));
+        return clone as T;
+    }
+    const clone = Array.isArray(value) ? [] : Object.create(Object.getPrototypeOf(value));
+    seen.set(value, clone);
+    for (const [key, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(value))) {
+        if ("value" in descriptor) {
+            descriptor.value = deepClone(descriptor.value, seen);
+        }
+        Object.defineProperty(clone, key, descriptor);
+    }
+    return clone;
+}
@@ -0,0 +1,194 @@
+import type { Result } from "./result";
+import { formatValue } from "./format";
+
+/**
+ * Thrown when a Result or an Option is unwrapped on the wrong variant, e.g. by Result.unwrap or Result.expect.
+ *
+ * The original error, if any, is kept as `cause`.
+ */
+export class UnwrapError extends Error {
+    readonly cause?: unknown;
+
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = "UnwrapError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * Wraps an error with a message describing what was being done when it occurred.
+ *
+ * The wrapped error is kept as `cause`, so nested ContextErrors form a chain which can be printed with formatErrorChain.
+ */
+export class ContextError<C = unknown> extends Error {
+    readonly cause: C;
+
+    constructor(message: string, cause: C) {
+        super(message);
+        this.name = "ContextError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * Describes a single link of an error chain.
+ */
+function describeError(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message;
+    }
+    if (typeof error === "string") {
+        return error;
+    }
+    try {
+        return JSON.stringify(error) ?? String(error);
+    } catch {
+        return String(error);
+    }
+}
+
+/**
+ * Lists an error followed by every error in its `cause` chain, outermost first.
+ * Cyclic chains are cut off at the first repeated error.
+ *
+ * @param error - The outermost error.
+ * @returns Every error in the chain.
+ */
+export function errorChain(error: unknown): unknown[] {
+    const chain: unknown[] = [];
+    const seen = new Set<unknown>();
+    let current = error;
+    while (!seen.has(current)) {
+        chain.push(current);
+        seen.add(current);
+        if (typeof current !== "object" || current === null || !("cause" in current)) {
+            break;
+        }
+        current = (current as { cause: unknown }).cause;
+        if (current === undefined) {
+            break;
+        }
+    }
+    return chain;
+}
+
+/**
+ * Formats an error and its `cause` chain, similar to how anyhow prints errors in Rust.
+ *
+ * ```
+ * loading config
+ *
+ * Caused by:
+ *     0: reading config.json
+ *     1: ENOENT: no such file or directory
+ * ```
+ *
+ * @param error - The outermost error.
+ * @returns The formatted chain.
+ */
+export function formatErrorChain(error: unknown): string {
+    const [outermost, ...causes] = errorChain(error).map(describeError);
+    if (causes.length === 0) {
+        return outermost;
+    }
+    const lines = causes.map((cause, index) => `    ${index}: ${cause}`);
+    return `${outermost}\n\nCaused by:\n${lines.join("\n")}`;
+}
+
+/**
+ * Options accepted by the constructors of tagged errors.
+ */
+export interface TaggedErrorOptions {
+    /**
+     * The error message, which defaults to the tag.
+     */
+    message?: string,
+    /**
+     * The error which caused this one.
+     */
+    cause?: unknown
+}
+
+/**
+ * Checks that the fields passed to a tagged error constructor are of type F, either as a type guard or as a Schema.
+ */
+export type FieldsGuard<F> = ((fields: unknown) => fields is F) | { parse(fields: unknown): Result<F, unknown> };
+
+/**
+ * Fields of a tagged error, which may not include a `_tag`, as it would replace the discriminant of the error.
+ */
+type TaggedErrorFields<F> = F & { _tag?: never };
+
+/**
+ * Constructor arguments of a tagged error, where the fields may only be omitted if there are none.
+ */
+type TaggedErrorArgs<F> = keyof F extends never
+    ? [fields?: TaggedErrorFields<F>, options?: TaggedErrorOptions]
+    : [fields: TaggedErrorFields<F>, options?: TaggedErrorOptions];
+
+/**
+ * Base class of every error created by defineError, discriminated by its `_tag`.
+ */
+export class TaggedError<Tag extends string> extends Error {
+    readonly _tag: Tag;
+    readonly cause?: unknown;
+
+    constructor(tag: Tag, options: TaggedErrorOptions = {}) {
+        super(options.message ?? tag);
+        this.name = tag;
+        this._tag = tag;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * A tagged error class whose fields are known, as returned by defineError with a schema.
+ */
+export interface TaggedErrorClass<Tag extends string, F extends object> {
+    new (...args: TaggedErrorArgs<F>): TaggedError<Tag> & Readonly<F>;
+    readonly _tag: Tag;
+}
+
+/**
+ * A tagged error class whose fields are given as a type argument, as returned by defineError without a schema.
+ */
+export interface GenericTaggedErrorClass<Tag extends string> {
+    new <F extends object = Record<never, never>>(...args: TaggedErrorArgs<F>): TaggedError<Tag> & Readonly<F>;
+    readonly _tag: Tag;
+}
+
+/**
+ * Creates a tagged error class, whose instances carry a `_tag`, structured fields and an optional `cause`.
+ *
+ * ```
+ * class NotFound extends defineError("NotFound")<{ id: number }> {}
+ * const err = new NotFound({ id: 3 }, { cause: dbError });
+ * err._tag; // "NotFound"
+ * ```
+ *
+ * With a schema, the fields are inferred from it and checked when an error is constructed.
+ *
+ * @param tag - The tag which identifies the error, also used as its name and default message.
+ * @param schema - A type guard or a Schema for the fields.
+ * @throws The returned constructor throws a TypeError if the fields do not pass the schema.
+ * @returns A new error class.
+ */
+export function defineError<Tag extends string>(tag: Tag): GenericTaggedErrorClass<Tag>;
+export function defineError<Tag extends string, F extends object>(tag: Tag, schema: FieldsGuard<F>): TaggedErrorClass<Tag, F>;
+export function defineError<Tag extends string, F extends object>(tag: Tag, schema?: FieldsGuard<F>): GenericTaggedErrorClass<Tag> | TaggedErrorClass<Tag, F> {
+    class DefinedError extends TaggedError<Tag> {
+        static readonly _tag = tag;
+
+        constructor(fields?: F, options?: TaggedErrorOptions) {
+            if (schema && !(typeof schema === "function" ? schema(fields ?? {}) : schema.parse(fields ?? {}).isOk())) {
+                throw new TypeError(`Invalid fields for ${tag}: ${formatValue(fields)}`);
+            }
+            super(tag, options);
+            // The tag is assigned last, so that untyped fields carrying a `_tag` cannot replace it
+            Object.assign(this, fields, { _tag: tag });
+        }
+    }
+    Object.defineProperty(DefinedError, "name", { value: tag });
+    return DefinedError as unknown as GenericTaggedErrorClass<Tag>;
+}
@@ -0,0 +1,228 @@
+import type { ESLint, Linter, Rule } from "eslint";
+import type * as ESTree from "estree";
+import type * as ts from "typescript";
+
+/**
+ * The classes whose unwrapping methods panic on the wrong variant.
+ */
+const RESULT_TYPES = ["Result", "AsyncResult", "Option", "Validated"];
+
+/**
+ * The classes whose values must be used.
+ */
+const MUST_USE_TYPES = ["Result", "AsyncResult", "Validated"];
+
+/**
+ * Static methods of Result which create a Result, used to detect discarded Results without type information.
+ */
+const RESULT_FACTORIES = [
+    "Ok", "Err", "try", "fromPromise", "fromCallback", "gen", "all", "allAsync", "allSettled", "allSettledAsync",
+    "any", "anyAsync", "collect", "collectAsync", "retry", "timeout", "fromJSON", "once",
+    "bracket", "using", "parallel",
+];
+
+/**
+ * Methods of Result and AsyncResult which return another Result, followed through chains without type information.
+ */
+const CHAINED_METHODS = [
+    "map", "mapErr", "andThen", "orElse", "or", "and", "inspect", "inspectErr", "tap", "tapErr",
+    "context", "withContext", "catchTag", "clone", "toAsync",
+];
+
+const PANICKING_METHODS = ["unwrap", "unwrapErr", "unwrapErrors", "expect", "expectErr"];
+
+const UNCHECKED_METHODS = ["unwrapUnchecked", "unwrapErrUnchecked"];
+
+const DEFAULT_ALLOWED_FILES = ["\\.(test|spec)\\.[cm]?[jt]sx?$", "[\\\\/]__tests__[\\\\/]"];
+
+interface TypeServices {
+    program: ts.Program,
+    esTreeNodeToTSNodeMap: { get(node: ESTree.Node): ts.Node }
+}
+
+/**
+ * Returns the parser services of typescript-eslint if type information is available.
+ */
+function typeServices(context: Rule.RuleContext): TypeServices | undefined {
+    const services = context.sourceCode.parserServices as Partial<TypeServices> | undefined;
+    return services?.program && services.esTreeNodeToTSNodeMap ? services as TypeServices : undefined;
+}
+
+/**
+ * Checks whether the type of a node is one of the provided classes, or undefined if type information is not available.
+ * With `awaited`, the type which the node settles into is checked instead, e.g. Result for a Promise of a Result.
+ */
+function hasType(context: Rule.RuleContext, node: ESTree.Node, names: string[], awaited = false): boolean | undefined {
+    const services = typeServices(context);
+    if (!services) {
+        return undefined;
+    }
+    const checker = services.program.getTypeChecker();
+    const nodeType = checker.getTypeAtLocation(services.esTreeNodeToTSNodeMap.get(node));
+    const type = awaited ? checker.getAwaitedType(nodeType) ?? nodeType : nodeType;
+    const types = type.isUnion() ? type.types : [type];
+    return types.some(member => {
+        const name = (member.aliasSymbol ?? member.getSymbol())?.getName();
+        return name !== undefined && names.includes(name);
+    });
+}
+
+/**
+ * Returns the name of the method called by a call expression, such as `unwrap` in `res.unwrap()`.
+ */
+function calledMethod(node: ESTree.CallExpression): string | undefined {
+    const callee = node.callee;
+    if (callee.type !== "MemberExpression") {
+        return undefined;
+    }
+    if (callee.property.type === "Identifier" && !callee.computed) {
+        return callee.property.name;
+    }
+    return callee.property.type === "Literal" && typeof callee.property.value === "string" ? callee.property.value : undefined;
+}
+
+/**
+ * Checks whether a method call is made on one of the provided classes, falling back to the method name alone without type information.
+ */
+function isCalledOn(context: Rule.RuleContext, node: ESTree.CallExpression, names: string[]): boolean {
+    const receiver = (node.callee as ESTree.MemberExpression).object;
+    return hasType(context, receiver, names) ?? true;
+}
+
+/**
+ * Checks syntactically whether an expression creates a Result, i.e. is a call to a Result factory,
+ * possibly followed by a chain of calls to methods which return another Result.
+ */
+function isResultCall(node: ESTree.Expression | ESTree.Super): boolean {
+    if (node.type !== "CallExpression" || node.callee.type !== "MemberExpression") {
+        return false;
+    }
+    const { object } = node.callee;
+    const method = calledMethod(node);
+    if (method === undefined) {
+        return false;
+    }
+    if (object.type === "Identifier" && object.name === "Result") {
+        return RESULT_FACTORIES.includes(method);
+    }
+    return CHAINED_METHODS.includes(method) && isResultCall(object);
+}
+
+const mustUseResult: Rule.RuleModule = {
+    meta: {
+        type: "problem",
+        docs: {
+            description: "Require Results returned by calls to be used, so that errors cannot be silently ignored",
+        },
+        messages: {
+            unused: "This Result is discarded, so its error is silently ignored. Handle it, or discard it explicitly with `void`.",
+        },
+        schema: [],
+    },
+    create(context) {
+        return {
+            ExpressionStatement(node) {
+                const expression = node.expression.type === "AwaitExpression" ? node.expression.argument : node.expression;
+                if (expression.type !== "CallExpression") {
+                    return;
+                }
+                // A Promise of a Result which is neither awaited nor used discards the Result as well
+                const typed = hasType(context, node.expression, MUST_USE_TYPES, true);
+                if (typed ?? isResultCall(expression)) {
+                    context.report({ node, messageId: "unused" });
+                }
+            },
+        };
+    },
+};
+
+const noUnwrapInProduction: Rule.RuleModule = {
+    meta: {
+        type: "suggestion",
+        docs: {
+            description: "Disallow panicking unwraps such as unwrap and expect outside of allowed files, such as tests",
+        },
+        messages: {
+            unwrap: "`{{method}}` throws on the wrong variant. Handle both variants, e.g. with match, unwrapOr or `?`-style Result.gen.",
+        },
+        schema: [
+            {
+                type: "object",
+                properties: {
+                    allowFiles: { type: "array", items: { type: "string" } },
+                    allowMethods: { type: "array", items: { type: "string" } },
+                },
+                additionalProperties: false,
+            },
+        ],
+    },
+    create(context) {
+        const options = (context.options[0] ?? {}) as { allowFiles?: string[], allowMethods?: string[] };
+        const allowFiles = (options.allowFiles ?? DEFAULT_ALLOWED_FILES).map(pattern => new RegExp(pattern));
+        const allowMethods = options.allowMethods ?? [];
+        if (allowFiles.some(pattern => pattern.test(context.filename))) {
+            return {};
+        }
+        return {
+            CallExpression(node) {
+                const method = calledMethod(node);
+                if (method && PANICKING_METHODS.includes(method) && !allowMethods.includes(method) && isCalledOn(context, node, RESULT_TYPES)) {
+                    context.report({ node, messageId: "unwrap", data: { method } });
+                }
+            },
+        };
+    },
+};
+
+const noUncheckedUnwrap: Rule.RuleModule = {
+    meta: {
+        type: "problem",
+        docs: {
+            description: "Disallow unwrapUnchecked and unwrapErrUnchecked, which return undefined instead of failing on the wrong variant",
+        },
+        messages: {
+            unchecked: "`{{method}}` does not check the variant and may return undefined. Use unwrap, unwrapOr or match instead.",
+        },
+        schema: [],
+    },
+    create(context) {
+        return {
+            CallExpression(node) {
+                const method = calledMethod(node);
+                if (method && UNCHECKED_METHODS.includes(method) && isCalledOn(context, node, RESULT_TYPES)) {
+                    context.report({ node, messageId: "unchecked", data: { method } });
+                }
+            },
+        };
+    },
+};
+
+const rules = {
+    "must-use-result": mustUseResult,
+    "no-unwrap-in-production": noUnwrapInProduction,
+    "no-unchecked-unwrap": noUncheckedUnwrap,
+};
+
+const plugin: ESLint.Plugin & { rules: typeof rules, configs: { recommended: Linter.Config } } = {
+    meta: {
+        name: "rustyresult/eslint-plugin",
+    },
+    rules,
+    configs: {
+        recommended: {},
+    },
+};
+
+/**
+ * Enables every rule of the plugin as errors, for use in a flat config.
+ */
+plugin.configs.recommended = {
+    plugins: { rustyresult: plugin },
+    rules: {
+        "rustyresult/must-use-result": "error",
+        "rustyresult/no-unwrap-in-production": "error",
+        "rustyresult/no-unchecked-unwrap": "error",
+    },
+};
+
+export default plugin;
@@ -0,0 +1,106 @@
+import { Result, ResultType } from "./result";
+import { Option } from "./option";
+import { Validated } from "./validated";
+
+/**
+ * The symbol under which Node's util.inspect looks up a custom formatter, registered globally so that util does not need to be imported.
+ */
+export const inspectSymbol: unique symbol = Symbol.for("nodejs.util.inspect.custom");
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function formatKey(key: string): string {
+    return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function formatEntries(name: string, entries: string[]): string {
+    const prefix = name ? `${name} ` : "";
+    return entries.length === 0 ? `${prefix}{}` : `${prefix}{ ${entries.join(", ")} }`;
+}
+
+function formatFields(value: object, seen: Set<object>, omit: string[] = []): string[] {
+    return Object.entries(value)
+        .filter(([key]) => !omit.includes(key))
+        .map(([key, field]) => `${formatKey(key)}: ${format(field, seen)}`);
+}
+
+function formatError(error: Error, seen: Set<object>): string {
+    const fields = formatFields(error, seen, ["name", "_tag", "cause"]);
+    if (fields.length > 0) {
+        return formatEntries(error.name, fields);
+    }
+    return error.message && error.message !== error.name ? `${error.name}(${JSON.stringify(error.message)})` : error.name;
+}
+
+function format(value: unknown, seen: Set<object>): string {
+    switch (typeof value) {
+        case "string":
+            return JSON.stringify(value);
+        case "bigint":
+            return `${value}n`;
+        case "symbol":
+            return value.toString();
+        case "function":
+            return value.name ? `[Function ${value.name}]` : "[Function]";
+        case "object":
+            break;
+        default:
+            return String(value);
+    }
+    if (value === null) {
+        return "null";
+    }
+    if (seen.has(value)) {
+        return "[Circular]";
+    }
+    seen.add(value);
+    try {
+        if (value instanceof Result) {
+            const union = value.toUnion();
+            return union.type === ResultType.Ok ? `Ok(${format(union.value, seen)})` : `Err(${format(union.err, seen)})`;
+        }
+        if (value instanceof Option) {
+            return value.isSome() ? `Some(${format(value.unwrapUnchecked(), seen)})` : "None";
+        }
+        if (value instanceof Validated) {
+            return value.isValid() ? `Valid(${format(value.value, seen)})` : `Invalid(${format(value.errors, seen)})`;
+        }
+        if (value instanceof Error) {
+            return formatError(value, seen);
+        }
+        if (value instanceof Date) {
+            return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+        }
+        if (value instanceof RegExp) {
+            return String(value);
+        }
+        if (Array.isArray(value)) {
+            return `[${value.map(item => format(item, seen)).join(", ")}]`;
+        }
+        if (value instanceof Map) {
+            return formatEntries("Map", [...value].map(([key, item]) => `${format(key, seen)}: ${format(item, seen)}`));
+        }
+        if (value instanceof Set) {
+            return formatEntries("Set", [...value].map(item => format(item, seen)));
+        }
+        const prototype = Object.getPrototypeOf(value);
+        const name = prototype === null || prototype === Object.prototype ? "" : prototype.constructor?.name ?? "";
+        return formatEntries(name, formatFields(value, seen));
+    } finally {
+        // Only ancestors count as cycles, so a value referenced twice by its siblings is printed twice
+        seen.delete(value);
+    }
+}
+
+/**
+ * Formats any value for debugging, similar to how Rust's Debug trait prints values.
+ *
+ * Strings are quoted, Results and Options are printed as `Ok(42)` or `Some("a")`, errors as `NotFound { id: 3 }` or `Error("message")`,
+ * and class instances are prefixed with their class name. Cyclic references are printed as `[Circular]` instead of recursing forever.
+ *
+ * @param value - The value to format.
+ * @returns A readable representation of the value.
+ */
+export function formatValue(value: unknown): string {
+    return format(value, new Set());
+}
@@ -0,0 +1,44 @@
+import { UnwrapError } from "./errors";
+
+/**
+ * Global observability hooks, as set by Result.configure.
+ */
+export interface ResultHooks {
+    /**
+     * Called with the error of every Err Result when it is created, but not for the Errs derived from it, e.g. by mapErr or context.
+     */
+    onErr?: (err: unknown) => void,
+    /**
+     * Called with the UnwrapError thrown when a Result or an Option is unwrapped on the wrong variant, right before it is thrown.
+     */
+    onUnwrapPanic?: (error: UnwrapError) => void
+}
+
+let hooks: ResultHooks = {};
+
+/**
+ * Replaces the global hooks.
+ *
+ * @returns The hooks which were configured before.
+ */
+export function configure(next: ResultHooks): ResultHooks {
+    const previous = hooks;
+    hooks = { ...next };
+    return previous;
+}
+
+/**
+ * Reports the creation of an Err to the onErr hook.
+ */
+export function reportErr(err: unknown): void {
+    hooks.onErr?.(err);
+}
+
+/**
+ * Reports an UnwrapError to the onUnwrapPanic hook and throws it.
+ */
+export function panic(message: string, cause?: unknown): never {
+    const error = new UnwrapError(message, cause);
+    hooks.onUnwrapPanic?.(error);
+    throw error;
+}
@@ -0,0 +1,124 @@
+import { Result } from "./result";
+import { AsyncResult, Awaitable } from "./asyncResult";
+
+/**
+ * A Node-style callback, which receives an error first and the value second.
+ */
+export type NodeCallback<T, E = unknown> = (err: E | null, value?: T) => void;
+
+/**
+ * The subset of a Node EventEmitter used by Result.once.
+ */
+export interface EventEmitterLike {
+    once(event: string | symbol, listener: (...args: unknown[]) => void): unknown,
+    removeListener(event: string | symbol, listener: (...args: unknown[]) => void): unknown
+}
+
+/**
+ * Where Result.transformStream sends the error of every Err, either a WritableStream or a callback.
+ */
+export type ErrSink<E, I> = WritableStream<E> | ((err: E, chunk: I) => Awaitable<void>);
+
+/**
+ * Calls a function with a Node-style callback, settling into Ok with the value it is called with, or into Err with its error.
+ *
+ * @param fn - A function which starts the operation and passes the callback along.
+ * @param mapError - A function that maps the error, or anything thrown synchronously, into the error type.
+ * @returns An AsyncResult which settles once the callback is called.
+ */
+export function fromCallback<T, E = Error>(fn: (callback: NodeCallback<T>) => void, mapError?: (error: unknown) => E): AsyncResult<T, E> {
+    return Result.fromPromise(new Promise<T>((resolve, reject) => {
+        fn((err, value) => err !== null && err !== undefined ? reject(err) : resolve(value as T));
+    }), mapError);
+}
+
+/**
+ * Settles a Result into a Node-style callback, calling it with `(null, value)` if Ok and with `(err)` if Err.
+ * The callback is always called asynchronously, and a rejected promise is passed to it as the error.
+ *
+ * @param result - The Result, AsyncResult or promise of a Result to settle.
+ * @param callback - The Node-style callback.
+ */
+export function toCallback<T, E>(result: Awaitable<Result<T, E>>, callback: NodeCallback<T, unknown>): void {
+    Promise.resolve(result).then(
+        settled => queueMicrotask(() => settled.isErr() ? callback(settled.error) : callback(null, settled.unwrapUnchecked())),
+        error => queueMicrotask(() => callback(error))
+    );
+}
+
+/**
+ * Waits for the first of two events, settling into Ok with the first argument of the success event,
+ * or into Err with the first argument of the error event. Both listeners are removed once either event fires.
+ *
+ * @param emitter - The EventEmitter to listen to.
+ * @param successEvent - The event which settles into Ok.
+ * @param errorEvent - The event which settles into Err. Defaults to "error".
+ * @returns An AsyncResult which settles on the first of both events.
+ */
+export function once<T, E = Error>(emitter: EventEmitterLike, successEvent: string | symbol, errorEvent: string | symbol = "error"): AsyncResult<T, E> {
+    return AsyncResult.from(new Promise<Result<T, E>>(resolve => {
+        const onSuccess = (...args: unknown[]) => {
+            emitter.removeListener(errorEvent, onError);
+            resolve(Result.Ok(args[0] as T));
+        };
+        const onError = (...args: unknown[]) => {
+            emitter.removeListener(successEvent, onSuccess);
+            resolve(Result.Err(args[0] as E));
+        };
+        emitter.once(successEvent, onSuccess);
+        emitter.once(errorEvent, onError);
+    }));
+}
+
+/**
+ * Creates a TransformStream which maps every chunk through a Result-returning function.
+ * The value of every Ok is passed downstream, while the error of every Err is sent to the error sink instead.
+ *
+ * A WritableStream sink is locked while the transform is in use, and closed once every chunk went through.
+ * If the function throws, or the stream is cancelled or aborted, the sink is aborted with the same reason and unlocked.
+ * In Node, the stream can be used with stream.Readable.toWeb and stream.Readable.fromWeb.
+ *
+ * @param op - A function that maps every chunk into a Result, which may be asynchronous.
+ * @param errors - The WritableStream or callback which receives the error of every Err.
+ * @returns A TransformStream of the values of every Ok.
+ */
+export function transformStream<I, O, E>(op: (chunk: I) => Awaitable<Result<O, E>>, errors: ErrSink<E, I>): TransformStream<I, O> {
+    const writer = typeof errors === "function" ? undefined : errors.getWriter();
+    let released = false;
+    const release = async (settle: (writer: WritableStreamDefaultWriter<E>) => Promise<void>) => {
+        if (!writer || released) {
+            return;
+        }
+        released = true;
+        try {
+            await settle(writer);
+        } finally {
+            writer.releaseLock();
+        }
+    };
+    // Declared apart from the call, as the typings of Transformer do not include cancel yet
+    const transformer: NonNullable<ConstructorParameters<typeof TransformStream<I, O>>[0]> & { cancel: (reason: unknown) => Promise<void> } = {
+        async transform(chunk, controller) {
+            try {
+                const result = await op(chunk);
+                if (!result.isErr()) {
+                    controller.enqueue(result.unwrapUnchecked());
+                } else if (writer) {
+                    await writer.write(result.error);
+                } else {
+                    await (errors as (err: E, chunk: I) => Awaitable<void>)(result.error, chunk);
+                }
+            } catch (error) {
+                await release(sink => sink.abort(error));
+                throw error;
+            }
+        },
+        async flush() {
+            await release(sink => sink.close());
+        },
+        async cancel(reason) {
+            await release(sink => sink.abort(reason));
+        },
+    };
+    return new TransformStream<I, O>(transformer);
+}
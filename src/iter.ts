@@ -0,0 +1,268 @@
+import { Result } from "./result";
+import { AsyncResult, Awaitable } from "./asyncResult";
+
+/**
+ * A lazy iterator over Results, whose adapters only pull from the source when iterated.
+ */
+export class ResultIter<T, E> implements Iterable<Result<T, E>> {
+    private source: Iterable<Result<T, E>>;
+
+    private constructor(source: Iterable<Result<T, E>>) {
+        this.source = source;
+    }
+
+    /**
+     * Creates a ResultIter over an iterable of Results.
+     *
+     * @param source - The Results to iterate over.
+     * @returns A lazy iterator over the provided Results.
+     */
+    static from<T, E>(source: Iterable<Result<T, E>>): ResultIter<T, E> {
+        return new ResultIter<T, E>(source);
+    }
+
+    /**
+     * Creates an AsyncResultIter over an async iterable of Results, or an iterable of promises of Results.
+     *
+     * @param source - The Results to iterate over.
+     * @returns A lazy async iterator over the provided Results.
+     */
+    static fromAsync<T, E>(source: AsyncIterable<Result<T, E>> | Iterable<Awaitable<Result<T, E>>>): AsyncResultIter<T, E> {
+        return AsyncResultIter.from(source);
+    }
+
+    [Symbol.iterator](): Iterator<Result<T, E>> {
+        return this.source[Symbol.iterator]();
+    }
+
+    /**
+     * Transforms the value of every Ok, leaving every Err unchanged.
+     *
+     * @param op - A function that transforms the contained values.
+     * @returns A lazy iterator over the transformed Results.
+     */
+    mapOk<U>(op: (value: T) => U): ResultIter<U, E> {
+        const source = this.source;
+        return new ResultIter<U, E>({
+            *[Symbol.iterator]() {
+                for (const result of source) {
+                    yield result.map(op);
+                }
+            },
+        });
+    }
+
+    /**
+     * Drops every Ok whose value does not satisfy the predicate, keeping every Err.
+     *
+     * @param predicate - A function to test the contained values.
+     * @returns A lazy iterator over the remaining Results.
+     */
+    filterOk(predicate: (value: T) => boolean): ResultIter<T, E> {
+        const source = this.source;
+        return new ResultIter<T, E>({
+            *[Symbol.iterator]() {
+                for (const result of source) {
+                    if (result.isErr() || result.isOkAnd(predicate)) {
+                        yield result;
+                    }
+                }
+            },
+        });
+    }
+
+    /**
+     * Yields every Ok until the first Err, or until the first value which does not satisfy the predicate.
+     * Iteration stops there, so the rest of the source is never pulled.
+     *
+     * @param predicate - A function to test the contained values, which accepts every value if omitted.
+     * @returns A lazy iterator over the leading Ok Results.
+     */
+    takeWhileOk(predicate: (value: T) => boolean = () => true): ResultIter<T, E> {
+        const source = this.source;
+        return new ResultIter<T, E>({
+            *[Symbol.iterator]() {
+                for (const result of source) {
+                    if (!result.isOkAnd(predicate)) {
+                        return;
+                    }
+                    yield result;
+                }
+            },
+        });
+    }
+
+    /**
+     * Folds the values into an accumulator, stopping at the first Err from the source or from the callback.
+     *
+     * @param init - The initial value of the accumulator.
+     * @param op - A function that combines the accumulator with a value into a new accumulator, or fails.
+     * @returns Ok containing the final accumulator, or the first Err.
+     */
+    tryFold<A>(init: A, op: (acc: A, value: T) => Result<A, E>): Result<A, E> {
+        let acc = init;
+        for (const result of this.source) {
+            if (result.isErr()) {
+                return result as unknown as Result<A, E>;
+            }
+            const next = op(acc, result.unwrapUnchecked());
+            if (next.isErr()) {
+                return next;
+            }
+            acc = next.unwrapUnchecked();
+        }
+        return Result.Ok<A, E>(acc);
+    }
+
+    /**
+     * Calls the callback with every value, stopping at the first Err from the source or from the callback.
+     *
+     * @param op - A function that receives every value, and may fail by returning an Err.
+     * @returns Ok if every value was processed, otherwise the first Err.
+     */
+    tryForEach(op: (value: T) => Result<unknown, E> | void): Result<void, E> {
+        return this.tryFold<void>(undefined, (_, value) => {
+            const outcome = op(value);
+            return outcome instanceof Result ? outcome.and(Result.Ok<void, E>(undefined)) : Result.Ok<void, E>(undefined);
+        });
+    }
+
+    /**
+     * Collects the values into a list, stopping at the first Err.
+     *
+     * @returns Ok containing every value, or the first Err.
+     */
+    collect(): Result<T[], E> {
+        return Result.collect(this.source);
+    }
+}
+
+/**
+ * A lazy async iterator over Results, whose adapters only pull from the source when iterated.
+ */
+export class AsyncResultIter<T, E> implements AsyncIterable<Result<T, E>> {
+    private source: AsyncIterable<Result<T, E>> | Iterable<Awaitable<Result<T, E>>>;
+
+    private constructor(source: AsyncIterable<Result<T, E>> | Iterable<Awaitable<Result<T, E>>>) {
+        this.source = source;
+    }
+
+    /**
+     * Creates an AsyncResultIter over an async iterable of Results, or an iterable of promises of Results.
+     *
+     * @param source - The Results to iterate over.
+     * @returns A lazy async iterator over the provided Results.
+     */
+    static from<T, E>(source: AsyncIterable<Result<T, E>> | Iterable<Awaitable<Result<T, E>>>): AsyncResultIter<T, E> {
+        return new AsyncResultIter<T, E>(source);
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<Result<T, E>> {
+        for await (const result of this.source) {
+            yield result;
+        }
+    }
+
+    /**
+     * Transforms the value of every Ok, leaving every Err unchanged.
+     *
+     * @param op - A function that transforms the contained values.
+     * @returns A lazy async iterator over the transformed Results.
+     */
+    mapOk<U>(op: (value: T) => Awaitable<U>): AsyncResultIter<U, E> {
+        const source = this.source;
+        return new AsyncResultIter<U, E>({
+            async *[Symbol.asyncIterator]() {
+                for await (const result of source) {
+                    yield await result.toAsync().map(op);
+                }
+            },
+        });
+    }
+
+    /**
+     * Drops every Ok whose value does not satisfy the predicate, keeping every Err.
+     *
+     * @param predicate - A function to test the contained values.
+     * @returns A lazy async iterator over the remaining Results.
+     */
+    filterOk(predicate: (value: T) => Awaitable<boolean>): AsyncResultIter<T, E> {
+        const source = this.source;
+        return new AsyncResultIter<T, E>({
+            async *[Symbol.asyncIterator]() {
+                for await (const result of source) {
+                    if (result.isErr() || await predicate(result.unwrapUnchecked())) {
+                        yield result;
+                    }
+                }
+            },
+        });
+    }
+
+    /**
+     * Yields every Ok until the first Err, or until the first value which does not satisfy the predicate.
+     * Iteration stops there, so the rest of the source is never pulled.
+     *
+     * @param predicate - A function to test the contained values, which accepts every value if omitted.
+     * @returns A lazy async iterator over the leading Ok Results.
+     */
+    takeWhileOk(predicate: (value: T) => Awaitable<boolean> = () => true): AsyncResultIter<T, E> {
+        const source = this.source;
+        return new AsyncResultIter<T, E>({
+            async *[Symbol.asyncIterator]() {
+                for await (const result of source) {
+                    if (result.isErr() || !await predicate(result.unwrapUnchecked())) {
+                        return;
+                    }
+                    yield result;
+                }
+            },
+        });
+    }
+
+    /**
+     * Folds the values into an accumulator, stopping at the first Err from the source or from the callback.
+     *
+     * @param init - The initial value of the accumulator.
+     * @param op - A function that combines the accumulator with a value into a new accumulator, or fails.
+     * @returns An AsyncResult of Ok containing the final accumulator, or of the first Err.
+     */
+    tryFold<A>(init: A, op: (acc: A, value: T) => Awaitable<Result<A, E>>): AsyncResult<A, E> {
+        return AsyncResult.from((async () => {
+            let acc = init;
+            for await (const result of this) {
+                if (result.isErr()) {
+                    return result as unknown as Result<A, E>;
+                }
+                const next = await op(acc, result.unwrapUnchecked());
+                if (next.isErr()) {
+                    return next;
+                }
+                acc = next.unwrapUnchecked();
+            }
+            return Result.Ok<A, E>(acc);
+        })());
+    }
+
+    /**
+     * Calls the callback with every value, stopping at the first Err from the source or from the callback.
+     *
+     * @param op - A function that receives every value, and may fail by returning an Err.
+     * @returns An AsyncResult of Ok if every value was processed, otherwise of the first Err.
+     */
+    tryForEach(op: (value: T) => Awaitable<Result<unknown, E> | void>): AsyncResult<void, E> {
+        return this.tryFold<void>(undefined, async (_, value) => {
+            const outcome = await op(value);
+            return outcome instanceof Result ? outcome.and(Result.Ok<void, E>(undefined)) : Result.Ok<void, E>(undefined);
+        });
+    }
+
+    /**
+     * Collects the values into a list, stopping at the first Err.
+     *
+     * @returns An AsyncResult of Ok containing every value, or of the first Err.
+     */
+    collect(): AsyncResult<T[], E> {
+        return Result.collectAsync(this);
+    }
+}
@@ -0,0 +1,56 @@
+import { Result } from "./result";
+
+/**
+ * The stable wire format of a Result, as produced by Result.toJSON and accepted by Result.fromJSON.
+ * As JSON.stringify drops undefined properties, Result.fromJSON reads a missing value or error as undefined.
+ */
+export type ResultJSON<T, E> = { ok: true, value: T } | { ok: false, error: E };
+
+/**
+ * Checks that an unknown value is of type T, either as a type guard, by returning a Result, or as a Schema.
+ */
+export type JSONValidator<T> =
+    | ((value: unknown) => value is T)
+    | ((value: unknown) => Result<T, unknown>)
+    | { parse(value: unknown): Result<T, unknown> };
+
+/**
+ * Options for Result.fromJSON.
+ */
+export interface FromJSONOptions<T, E> {
+    /**
+     * Validates the value of an Ok payload. Without it, the value is trusted to be of type T.
+     */
+    validateOk?: JSONValidator<T>,
+    /**
+     * Validates the error of an Err payload. Without it, the error is trusted to be of type E.
+     */
+    validateErr?: JSONValidator<E>
+}
+
+/**
+ * Returned by Result.fromJSON when a payload is not a valid serialized Result.
+ */
+export class ResultParseError extends Error {
+    readonly cause?: unknown;
+
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = "ResultParseError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * Runs a validator against a value, normalizing type guards and Result-returning validators into a Result.
+ */
+export function runValidator<T>(validator: JSONValidator<T>, value: unknown, message: string): Result<T, ResultParseError> {
+    const outcome = typeof validator === "function" ? validator(value) : validator.parse(value);
+    if (outcome instanceof Result) {
+        return outcome.mapErr(err => new ResultParseError(message, err));
+    }
+    if (outcome) {
+        return Result.Ok(value as T);
+    }
+    return Result.Err(new ResultParseError(message));
+}
@@ -0,0 +1,131 @@
+import { Result, ResultType } from "./result";
+
+/**
+ * The subset of the matcher context shared by Jest and Vitest which the Result matchers rely on.
+ */
+interface MatcherContext {
+    isNot?: boolean,
+    equals(a: unknown, b: unknown, customTesters?: unknown[]): boolean,
+    utils: {
+        matcherHint(matcherName: string, received?: string, expected?: string, options?: { isNot?: boolean }): string,
+        printReceived(value: unknown): string,
+        printExpected(value: unknown): string,
+        diff(a: unknown, b: unknown): string | null
+    }
+}
+
+interface MatcherResult {
+    pass: boolean,
+    message: () => string
+}
+
+/**
+ * The Result matchers, to be merged into the Matchers interface of Jest or Vitest.
+ *
+ * ```
+ * declare module "expect" {
+ *     interface Matchers<R> extends ResultMatchers<R> {}
+ * }
+ * ```
+ */
+export interface ResultMatchers<R> {
+    /**
+     * Checks that the received value is an Ok Result, whose value equals the expected one if provided.
+     */
+    toBeOk(expected?: unknown): R,
+    /**
+     * Checks that the received value is an Err Result.
+     */
+    toBeErr(): R,
+    /**
+     * Checks that the received value is an Err Result whose error equals the expected one.
+     */
+    toBeErrWith(expected: unknown): R,
+    /**
+     * Checks that the received value is an Ok Result whose value satisfies the predicate.
+     */
+    toBeOkMatching(predicate: (value: unknown) => boolean): R
+}
+
+function describeResult(context: MatcherContext, received: unknown): string {
+    if (!(received instanceof Result)) {
+        return `Received: ${context.utils.printReceived(received)}`;
+    }
+    const union = received.toUnion();
+    return union.type === ResultType.Ok
+        ? `Received: Ok(${context.utils.printReceived(union.value)})`
+        : `Received: Err(${context.utils.printReceived(union.err)})`;
+}
+
+function describeDiff(context: MatcherContext, expected: unknown, received: unknown): string {
+    return context.utils.diff(expected, received) ?? `Expected: ${context.utils.printExpected(expected)}\nReceived: ${context.utils.printReceived(received)}`;
+}
+
+function checkVariant(context: MatcherContext, name: string, received: unknown, ok: boolean, expected?: { label: string, check: (content: unknown) => boolean, diff?: unknown }): MatcherResult {
+    const hint = context.utils.matcherHint(name, undefined, expected ? "expected" : "", { isNot: context.isNot });
+    const variant = ok ? "Ok" : "Err";
+    const union = received instanceof Result ? received.toUnion() : undefined;
+    if (!union || (union.type === ResultType.Ok) !== ok) {
+        return { pass: false, message: () => `${hint}\n\nExpected: ${variant} Result${expected ? ` ${expected.label}` : ""}\n${describeResult(context, received)}` };
+    }
+    const content = union.type === ResultType.Ok ? union.value : union.err;
+    if (!expected) {
+        return { pass: true, message: () => `${hint}\n\nExpected: not ${variant} Result\n${describeResult(context, received)}` };
+    }
+    const pass = expected.check(content);
+    return {
+        pass,
+        message: () => pass || !("diff" in expected)
+            ? `${hint}\n\nExpected: ${pass ? "not " : ""}${variant} Result ${expected.label}\n${describeResult(context, received)}`
+            : `${hint}\n\n${describeDiff(context, expected.diff, content)}`,
+    };
+}
+
+/**
+ * Jest and Vitest matchers for Results, registered with `expect.extend(resultMatchers)`.
+ * Failures print the received variant, and a diff of the contents when an expected value is provided.
+ */
+export const resultMatchers = {
+    toBeOk(this: MatcherContext, received: unknown, ...expected: [] | [unknown]): MatcherResult {
+        if (expected.length === 0) {
+            return checkVariant(this, "toBeOk", received, true);
+        }
+        const [value] = expected;
+        return checkVariant(this, "toBeOk", received, true, {
+            label: `containing ${this.utils.printExpected(value)}`,
+            check: content => this.equals(content, value),
+            diff: value,
+        });
+    },
+
+    toBeErr(this: MatcherContext, received: unknown): MatcherResult {
+        return checkVariant(this, "toBeErr", received, false);
+    },
+
+    toBeErrWith(this: MatcherContext, received: unknown, expected: unknown): MatcherResult {
+        return checkVariant(this, "toBeErrWith", received, false, {
+            label: `containing ${this.utils.printExpected(expected)}`,
+            check: content => this.equals(content, expected),
+            diff: expected,
+        });
+    },
+
+    toBeOkMatching(this: MatcherContext, received: unknown, predicate: (value: unknown) => boolean): MatcherResult {
+        return checkVariant(this, "toBeOkMatching", received, true, {
+            label: "whose value satisfies the predicate",
+            check: predicate,
+        });
+    },
+};
+
+/**
+ * An equality tester which compares Results by variant and contents, registered with `expect.addEqualityTesters([resultEqualityTester])`.
+ * Without it, toEqual compares Results field by field, which reports differences in terms of their internal representation.
+ */
+export function resultEqualityTester(this: { equals(a: unknown, b: unknown, customTesters?: unknown[]): boolean }, a: unknown, b: unknown, customTesters: unknown[]): boolean | undefined {
+    if (!(a instanceof Result) || !(b instanceof Result)) {
+        return undefined;
+    }
+    const equals = (x: unknown, y: unknown) => this.equals(x, y, customTesters);
+    return a.equals(b, equals, equals);
+}
@@ -0,0 +1,376 @@
+import type { ErrResult, ErrTag, MatchArms, MatchErrArms, OkResult, Result, ResultValue, TaggedWith } from "./result";
+import type { AsyncResult } from "./asyncResult";
+import type { Option } from "./option";
+import type { ContextError } from "./errors";
+import type { Equality } from "./equality";
+import type { ResultJSON } from "./json";
+import type { Validated } from "./validated";
+
+/*
+ * Curried, standalone versions of every method of Result, to be used with pipe and flow.
+ *
+ * Methods without parameters become functions of the Result, e.g. `unwrap(result)`.
+ * Methods with parameters take them first and return a function of the Result, e.g. `map(f)(result)`.
+ * Combinators which take another Result or a callback returning one accept a different error type, which is added to the error union.
+ *
+ * Every operator is a separate export which only calls the method, so bundlers drop the ones which are not used.
+ */
+
+export { pipe, flow } from "./pipe";
+
+/**
+ * Curried Result.unwrap.
+ *
+ * @param result - The Result to unwrap.
+ * @throws Will throw an UnwrapError if the Result is Err.
+ * @returns The contained value if Ok.
+ */
+export const unwrap = <T, E>(result: Result<T, E>): T => result.unwrap();
+
+/**
+ * Curried Result.unwrapOrElse.
+ *
+ * @param op - A callback function that receives the error and returns a fallback value.
+ * @returns A function of the Result which returns the contained value if Ok, or the fallback value if Err.
+ */
+export const unwrapOrElse = <T, E>(op: (err: E) => T) => (result: Result<T, E>): T => result.unwrapOrElse(op);
+
+/**
+ * Curried Result.unwrapErr.
+ *
+ * @param result - The Result to unwrap.
+ * @throws Will throw an UnwrapError if the Result is Ok.
+ * @returns The contained error if Err.
+ */
+export const unwrapErr = <T, E>(result: Result<T, E>): E => result.unwrapErr();
+
+/**
+ * Curried Result.unwrapOr.
+ *
+ * @param defaultValue - The default value to return if the Result is Err.
+ * @returns A function of the Result which returns the contained value if Ok, or the default value if Err.
+ */
+export const unwrapOr = <T>(defaultValue: T) => <E>(result: Result<T, E>): T => result.unwrapOr(defaultValue);
+
+/**
+ * Curried Result.unwrapUnchecked.
+ *
+ * @param result - The Result to unwrap.
+ * @returns The contained value, or undefined if Err.
+ */
+export const unwrapUnchecked = <T, E>(result: Result<T, E>): T => result.unwrapUnchecked();
+
+/**
+ * Curried Result.unwrapErrUnchecked.
+ *
+ * @param result - The Result to unwrap.
+ * @returns The contained error, or undefined if Ok.
+ */
+export const unwrapErrUnchecked = <T, E>(result: Result<T, E>): E => result.unwrapErrUnchecked();
+
+/**
+ * Curried Result.expect.
+ *
+ * @param msg - The message of the UnwrapError thrown if the Result is Err.
+ * @returns A function of the Result which returns the contained value if Ok, and throws otherwise.
+ */
+export const expect = (msg: string) => <T, E>(result: Result<T, E>): T => result.expect(msg);
+
+/**
+ * Curried Result.expectErr.
+ *
+ * @param msg - The message of the UnwrapError thrown if the Result is Ok.
+ * @returns A function of the Result which returns the contained error if Err, and throws otherwise.
+ */
+export const expectErr = (msg: string) => <T, E>(result: Result<T, E>): E => result.expectErr(msg);
+
+/**
+ * Curried Result.ok.
+ *
+ * @param result - The Result to convert.
+ * @returns The contained value if Ok, otherwise null.
+ */
+export const ok = <T, E>(result: Result<T, E>): T | null => result.ok();
+
+/**
+ * Curried Result.okOption.
+ *
+ * @param result - The Result to convert.
+ * @returns Some containing the value if Ok, otherwise None.
+ */
+export const okOption = <T, E>(result: Result<T, E>): Option<T> => result.okOption();
+
+/**
+ * Curried Result.isOk, which narrows the Result like the method does.
+ *
+ * @param result - The Result to check.
+ * @returns True if Ok, otherwise false.
+ */
+export const isOk = <T, E>(result: Result<T, E>): result is OkResult<T, E> => result.isOk();
+
+/**
+ * Curried Result.isOkAnd.
+ *
+ * @param predicate - A function that checks the contained value.
+ * @returns A function of the Result which returns true if it is Ok and its value passes the predicate.
+ */
+export const isOkAnd = <T>(predicate: (value: T) => boolean) => <E>(result: Result<T, E>): boolean => result.isOkAnd(predicate);
+
+/**
+ * Curried Result.err.
+ *
+ * @param result - The Result to convert.
+ * @returns The contained error if Err, otherwise null.
+ */
+export const err = <T, E>(result: Result<T, E>): E | null => result.err();
+
+/**
+ * Curried Result.errOption.
+ *
+ * @param result - The Result to convert.
+ * @returns Some containing the error if Err, otherwise None.
+ */
+export const errOption = <T, E>(result: Result<T, E>): Option<E> => result.errOption();
+
+/**
+ * Curried Result.isErr, which narrows the Result like the method does.
+ *
+ * @param result - The Result to check.
+ * @returns True if Err, otherwise false.
+ */
+export const isErr = <T, E>(result: Result<T, E>): result is ErrResult<T, E> => result.isErr();
+
+/**
+ * Curried Result.isErrAnd.
+ *
+ * @param predicate - A function that checks the contained error.
+ * @returns A function of the Result which returns true if it is Err and its error passes the predicate.
+ */
+export const isErrAnd = <E>(predicate: (err: E) => boolean) => <T>(result: Result<T, E>): boolean => result.isErrAnd(predicate);
+
+/**
+ * Curried Result.or, whose default Result may have other types.
+ *
+ * @param res - A default Result to return if the Result is Err.
+ * @returns A function of the Result which returns it if Ok, otherwise the default Result.
+ */
+export const or = <U, F>(res: Result<U, F>) => <T, E>(result: Result<T, E>): Result<T | U, F> =>
+    (result as Result<T | U, E | F>).or(res) as Result<T | U, F>;
+
+/**
+ * Curried Result.orElse, whose callback may return a Result of other types.
+ *
+ * @param op - A callback function that receives the error and returns an alternative Result.
+ * @returns A function of the Result which returns it if Ok, otherwise the alternative Result.
+ */
+export const orElse = <E, U, F>(op: (err: E) => Result<U, F>) => <T>(result: Result<T, E>): Result<T | U, F> =>
+    (result as Result<T | U, E | F>).orElse(op as (err: E | F) => Result<T | U, E | F>) as Result<T | U, F>;
+
+/**
+ * Curried Result.and, whose other Result may have another error type.
+ *
+ * @param res - A Result to return if the Result is Ok.
+ * @returns A function of the Result which returns the other Result if Ok, otherwise the same Err.
+ */
+export const and = <U, F>(res: Result<U, F>) => <T, E>(result: Result<T, E>): Result<U, E | F> =>
+    (result as Result<T, E | F>).and(res);
+
+/**
+ * Curried Result.andThen, whose callback may return a Result of another error type.
+ *
+ * @param op - A function that takes the contained value and returns an alternative Result.
+ * @returns A function of the Result which returns the Result of the callback if Ok, otherwise the same Err.
+ */
+export const andThen = <T, U, F>(op: (value: T) => Result<U, F>) => <E>(result: Result<T, E>): Result<U, E | F> =>
+    (result as Result<T, E | F>).andThen(op);
+
+/**
+ * Curried Result.map.
+ *
+ * @param op - A function that transforms the contained value.
+ * @returns A function of the Result which transforms its value if Ok.
+ */
+export const map = <T, U>(op: (value: T) => U) => <E>(result: Result<T, E>): Result<U, E> => result.map(op);
+
+/**
+ * Curried Result.mapOr.
+ *
+ * @param defaultValue - The default value to return if the Result is Err.
+ * @param op - A function that transforms the contained value.
+ * @returns A function of the Result which returns the transformed value if Ok, or the default value if Err.
+ */
+export const mapOr = <T, U>(defaultValue: U, op: (value: T) => U) => <E>(result: Result<T, E>): U => result.mapOr(defaultValue, op);
+
+/**
+ * Curried Result.mapOrElse.
+ *
+ * @param defaultOp - A function that computes a default value from the contained error.
+ * @param op - A function that transforms the contained value.
+ * @returns A function of the Result which returns the transformed value if Ok, or the computed default value if Err.
+ */
+export const mapOrElse = <T, E, U>(defaultOp: (err: E) => U, op: (value: T) => U) => (result: Result<T, E>): U => result.mapOrElse(defaultOp, op);
+
+/**
+ * Curried Result.match.
+ *
+ * @param arms - An `Ok` handler receiving the contained value and an `Err` handler receiving the contained error.
+ * @returns A function of the Result which returns the value of the matching handler.
+ */
+export const match = <T, E, U>(arms: MatchArms<T, E, U>) => (result: Result<T, E>): U => result.match(arms);
+
+/**
+ * Curried Result.matchErr.
+ *
+ * @param arms - An `Ok` handler, one handler per error tag and an optional `_` fallback handler.
+ * @returns A function of the Result which returns the value of the matching handler.
+ */
+export const matchErr = <T, E, U>(arms: MatchErrArms<T, E, U>) => (result: Result<T, E>): U => result.matchErr(arms);
+
+/**
+ * Curried Result.catchTag.
+ *
+ * @param tag - The tag of the errors to handle, read from their `_tag` or `kind` property.
+ * @param op - A callback function that receives the matching error and returns an alternative Result.
+ * @returns A function of the Result which recovers from the errors carrying the tag.
+ */
+export const catchTag = <E, Tag extends ErrTag<E>, U, F>(tag: Tag, op: (err: Extract<E, TaggedWith<Tag>>) => Result<U, F>) =>
+    <T>(result: Result<T, E>): Result<T | U, Exclude<E, TaggedWith<Tag>> | F> => result.catchTag(tag, op);
+
+/**
+ * Curried Result.mapErr.
+ *
+ * @param op - A function that transforms the contained error.
+ * @returns A function of the Result which transforms its error if Err.
+ */
+export const mapErr = <E, F>(op: (err: E) => F) => <T>(result: Result<T, E>): Result<T, F> => result.mapErr(op);
+
+/**
+ * Curried Result.inspect.
+ *
+ * @param op - A function that receives the contained value.
+ * @returns A function of the Result which calls the function if Ok, and returns the Result unchanged.
+ */
+export const inspect = <T>(op: (value: T) => void) => <E>(result: Result<T, E>): Result<T, E> => result.inspect(op);
+
+/**
+ * Curried Result.inspectErr.
+ *
+ * @param op - A function that receives the contained error.
+ * @returns A function of the Result which calls the function if Err, and returns the Result unchanged.
+ */
+export const inspectErr = <E>(op: (err: E) => void) => <T>(result: Result<T, E>): Result<T, E> => result.inspectErr(op);
+
+/**
+ * Curried Result.tap, an alias of inspect.
+ *
+ * @param op - A function that receives the contained value.
+ * @returns A function of the Result which calls the function if Ok, and returns the Result unchanged.
+ */
+export const tap = inspect;
+
+/**
+ * Curried Result.tapErr, an alias of inspectErr.
+ *
+ * @param op - A function that receives the contained error.
+ * @returns A function of the Result which calls the function if Err, and returns the Result unchanged.
+ */
+export const tapErr = inspectErr;
+
+/**
+ * Curried Result.context.
+ *
+ * @param msg - A message describing what was being done when the error occurred.
+ * @returns A function of the Result which wraps its error in a ContextError if Err.
+ */
+export const context = (msg: string) => <T, E>(result: Result<T, E>): Result<T, ContextError<E>> => result.context(msg);
+
+/**
+ * Curried Result.withContext.
+ *
+ * @param op - A function that computes the message from the contained error.
+ * @returns A function of the Result which wraps its error in a ContextError if Err.
+ */
+export const withContext = <E>(op: (err: E) => string) => <T>(result: Result<T, E>): Result<T, ContextError<E>> => result.withContext(op);
+
+/**
+ * Curried Result.transpose.
+ *
+ * @param result - The Result of an Option to transpose.
+ * @returns The transposed Option.
+ */
+export const transpose = <U, E>(result: Result<Option<U>, E>): Option<Result<U, E>> => result.transpose();
+
+/**
+ * Curried Result.equals.
+ *
+ * @param other - The Result to compare with.
+ * @param eqValue - Decides whether the values of two Ok Results are equal. Defaults to structural equality.
+ * @param eqErr - Decides whether the errors of two Err Results are equal. Defaults to structural equality.
+ * @returns A function of the Result which returns true if it is equal to the other one.
+ */
+export const equals = <T, E>(other: Result<T, E>, eqValue?: Equality<T>, eqErr?: Equality<E>) => (result: Result<T, E>): boolean =>
+    result.equals(other, eqValue, eqErr);
+
+/**
+ * Curried Result.hash.
+ *
+ * @param result - The Result to hash.
+ * @returns A hash of the variant and its contents.
+ */
+export const hash = <T, E>(result: Result<T, E>): number => result.hash();
+
+/**
+ * Curried Result.clone.
+ *
+ * @param deep - Whether the contents are cloned too. Defaults to false.
+ * @returns A function of the Result which returns a copy of it.
+ */
+export const clone = (deep?: boolean) => <T, E>(result: Result<T, E>): Result<T, E> => result.clone(deep);
+
+/**
+ * Curried Result.toValidated.
+ *
+ * @param result - The Result to convert.
+ * @returns A valid Validated containing the value if Ok, otherwise an invalid Validated containing the error.
+ */
+export const toValidated = <T, E>(result: Result<T, E>): Validated<T, E> => result.toValidated();
+
+/**
+ * Curried Result.toAsync.
+ *
+ * @param result - The Result to lift.
+ * @returns An AsyncResult which settles into the Result.
+ */
+export const toAsync = <T, E>(result: Result<T, E>): AsyncResult<T, E> => result.toAsync();
+
+/**
+ * Curried Result.iter.
+ *
+ * @param result - The Result to iterate over.
+ * @returns An iterator which yields the contained value once if Ok, and nothing if Err.
+ */
+export const iter = <T, E>(result: Result<T, E>): IterableIterator<T> => result.iter();
+
+/**
+ * Curried Result.toString.
+ *
+ * @param result - The Result to format.
+ * @returns A readable representation of the variant and its contents.
+ */
+export const toString = <T, E>(result: Result<T, E>): string => result.toString();
+
+/**
+ * Curried Result.toJSON.
+ *
+ * @param result - The Result to serialize.
+ * @returns `{ ok: true, value }` if Ok, otherwise `{ ok: false, error }`.
+ */
+export const toJSON = <T, E>(result: Result<T, E>): ResultJSON<T, E> => result.toJSON();
+
+/**
+ * Curried Result.toUnion.
+ *
+ * @param result - The Result to convert.
+ * @returns A discriminated union of the variants of the Result.
+ */
+export const toUnion = <T, E>(result: Result<T, E>): ResultValue<T, E> => result.toUnion();
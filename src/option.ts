@@ -0,0 +1,491 @@
+import { Result } from "./result";
+import { panic } from "./hooks";
+import { formatValue, inspectSymbol } from "./format";
+
+enum OptionType {
+    Some = "Some",
+    None = "None"
+}
+
+/**
+ * Contains the present value
+ */
+export interface Some<T> {
+    type: OptionType.Some,
+    value: T
+}
+
+/**
+ * Represents the absence of a value
+ */
+export interface None {
+    type: OptionType.None
+}
+
+type OptionValue<T> = Some<T> | None;
+
+/**
+ * An Option type representing either a present value (Some) of type T or the absence of a value (None).
+ */
+export class Option<T> {
+    private optionValue: OptionValue<T>;
+
+    private constructor(optionValue: OptionValue<T>) {
+        this.optionValue = optionValue;
+    }
+
+    /**
+     * Copies the Option, so that the Options returned by combinators never alias the current one or their arguments,
+     * which take, replace and getOrInsertWith would otherwise change through each other.
+     */
+    private copy(): Option<T> {
+        return new Option<T>(this.optionValue);
+    }
+
+    /**
+     * Creates a new Some Option with the provided value.
+     *
+     * @param value - The value to store.
+     * @returns An Option containing the value.
+     */
+    static Some<T>(value: T): Option<T> {
+        return new Option<T>({ type: OptionType.Some, value });
+    }
+
+    /**
+     * Creates a new None Option.
+     *
+     * @returns An Option containing no value.
+     */
+    static None<T>(): Option<T> {
+        return new Option<T>({ type: OptionType.None });
+    }
+
+    /**
+     * Creates an Option from a nullable value.
+     * Both null and undefined become None, anything else becomes Some.
+     *
+     * @param value - The nullable value to wrap.
+     * @returns Some if the value is neither null nor undefined, otherwise None.
+     */
+    static from<T>(value: T | null | undefined): Option<T> {
+        if (value === null || value === undefined) {
+            return Option.None<T>();
+        }
+        return Option.Some<T>(value);
+    }
+
+    /**
+     * Checks if the Option is a Some variant.
+     *
+     * @returns True if the Option is Some, otherwise false.
+     */
+    isSome(): boolean {
+        return this.optionValue.type === OptionType.Some;
+    }
+
+    /**
+     * Checks if the Option is Some and the contained value satisfies the provided predicate.
+     *
+     * @param predicate - A function to test the contained value.
+     * @returns True if the Option is Some and the value passes the predicate, otherwise false.
+     */
+    isSomeAnd(predicate: (value: T) => boolean): boolean {
+        return this.optionValue.type === OptionType.Some && predicate(this.optionValue.value);
+    }
+
+    /**
+     * Checks if the Option is a None variant.
+     *
+     * @returns True if the Option is None, otherwise false.
+     */
+    isNone(): boolean {
+        return this.optionValue.type === OptionType.None;
+    }
+
+    /**
+     * Checks if the Option is None or the contained value satisfies the provided predicate.
+     *
+     * @param predicate - A function to test the contained value.
+     * @returns True if the Option is None or the value passes the predicate, otherwise false.
+     */
+    isNoneOr(predicate: (value: T) => boolean): boolean {
+        return this.optionValue.type === OptionType.None || predicate(this.optionValue.value);
+    }
+
+    /**
+     * Unwraps the Option, returning the contained value if it is a Some variant.
+     *
+     * @throws Will throw an UnwrapError if the Option is None.
+     * @returns The contained value if Some.
+     */
+    unwrap(): T {
+        if (this.optionValue.type === OptionType.None) {
+            panic("Called Option.unwrap() on a None value");
+        }
+        return this.optionValue.value;
+    }
+
+    /**
+     * Unwraps the Option, returning the contained value if it is Some.
+     * If it is None, throws an UnwrapError with the provided custom message.
+     *
+     * @param msg - Custom message to use if the Option is None.
+     * @throws Will throw an error with the provided message if the Option is None.
+     * @returns The contained value if Some.
+     */
+    expect(msg: string): T {
+        if (this.optionValue.type === OptionType.None) {
+            panic(msg);
+        }
+        return this.optionValue.value;
+    }
+
+    /**
+     * Unwraps the Option, returning the contained value if it is Some.
+     * Otherwise, returns the provided default value.
+     *
+     * @param defaultValue - The default value to return if the Option is None.
+     * @returns The contained value if Some, or the default value if None.
+     */
+    unwrapOr(defaultValue: T): T {
+        if (this.optionValue.type === OptionType.None) {
+            return defaultValue;
+        }
+        return this.optionValue.value;
+    }
+
+    /**
+     * Unwraps the Option, returning the contained value if it is Some.
+     * If the Option is None, returns the result of the provided callback.
+     *
+     * @param op - A callback function that returns a fallback value.
+     * @returns The contained value if Some, or the fallback value produced by the callback if None.
+     */
+    unwrapOrElse(op: () => T): T {
+        if (this.optionValue.type === OptionType.None) {
+            return op();
+        }
+        return this.optionValue.value;
+    }
+
+    /**
+     * Unwraps the Option without performing any type checking.
+     *
+     * **Use with caution**: if the Option is None, this may lead to unexpected behavior.
+     *
+     * @returns The contained value (or undefined if None).
+     */
+    unwrapUnchecked(): T {
+        // @ts-expect-error Does not check if optionValue.type is OptionType.Some before returning optionValue.value
+        return this.optionValue.value;
+    }
+
+    /**
+     * Transforms a Some value by applying the provided function to it.
+     * If the Option is None, it is left unchanged.
+     *
+     * @param op - A function that transforms the contained value.
+     * @returns A new Option containing the transformed value if Some, or None.
+     */
+    map<U>(op: (value: T) => U): Option<U> {
+        if (this.optionValue.type === OptionType.None) {
+            return Option.None<U>();
+        }
+        return Option.Some<U>(op(this.optionValue.value));
+    }
+
+    /**
+     * Maps a Some value using the provided function, or returns a default value if the Option is None.
+     *
+     * @param defaultValue - The default value to return if the Option is None.
+     * @param op - A function that transforms the contained value.
+     * @returns The transformed value if Some, or the default value if None.
+     */
+    mapOr<U>(defaultValue: U, op: (value: T) => U): U {
+        if (this.optionValue.type === OptionType.None) {
+            return defaultValue;
+        }
+        return op(this.optionValue.value);
+    }
+
+    /**
+     * Maps a Some value using the provided function, or computes a default value using a callback if the Option is None.
+     *
+     * @param defaultOp - A function that computes a default value.
+     * @param op - A function that transforms the contained value.
+     * @returns The transformed value if Some, or the computed default value if None.
+     */
+    mapOrElse<U>(defaultOp: () => U, op: (value: T) => U): U {
+        if (this.optionValue.type === OptionType.None) {
+            return defaultOp();
+        }
+        return op(this.optionValue.value);
+    }
+
+    /**
+     * If the Option is Some, returns the provided Option.
+     * If the Option is None, returns None.
+     *
+     * @param opt - An Option to return if the current Option is Some.
+     * @returns A copy of the provided Option if the current Option is Some, otherwise None.
+     */
+    and<U>(opt: Option<U>): Option<U> {
+        if (this.optionValue.type === OptionType.None) {
+            return Option.None<U>();
+        }
+        return opt.copy();
+    }
+
+    /**
+     * If the Option is Some, calls the provided function with the contained value and returns its Option.
+     * If the Option is None, returns None.
+     *
+     * @param op - A function that takes the contained value and returns an alternative Option.
+     * @returns The Option returned by the callback if Some, otherwise None.
+     */
+    andThen<U>(op: (value: T) => Option<U>): Option<U> {
+        if (this.optionValue.type === OptionType.None) {
+            return Option.None<U>();
+        }
+        return op(this.optionValue.value).copy();
+    }
+
+    /**
+     * Returns the current Option if it is Some and the contained value satisfies the predicate.
+     * Otherwise, returns None.
+     *
+     * @param predicate - A function to test the contained value.
+     * @returns A copy of the current Option if Some and the predicate passes, otherwise None.
+     */
+    filter(predicate: (value: T) => boolean): Option<T> {
+        if (this.optionValue.type === OptionType.Some && predicate(this.optionValue.value)) {
+            return this.copy();
+        }
+        return Option.None<T>();
+    }
+
+    /**
+     * Returns the current Option if it is Some, or a provided default Option if it is None.
+     *
+     * @param opt - A default Option to return if the current Option is None.
+     * @returns A copy of the current Option if Some, otherwise a copy of the provided default Option.
+     */
+    or(opt: Option<T>): Option<T> {
+        if (this.optionValue.type === OptionType.None) {
+            return opt.copy();
+        }
+        return this.copy();
+    }
+
+    /**
+     * Returns the current Option if it is Some, or the Option returned by a callback if it is None.
+     *
+     * @param op - A callback function that returns an alternative Option.
+     * @returns A copy of the current Option if Some, otherwise a copy of the alternative Option produced by the callback.
+     */
+    orElse(op: () => Option<T>): Option<T> {
+        if (this.optionValue.type === OptionType.None) {
+            return op().copy();
+        }
+        return this.copy();
+    }
+
+    /**
+     * Returns Some if exactly one of the current Option and the provided Option is Some.
+     * Otherwise, returns None.
+     *
+     * @param opt - The Option to compare with.
+     * @returns The Option that is Some if exactly one of them is, otherwise None.
+     */
+    xor(opt: Option<T>): Option<T> {
+        if (this.optionValue.type === OptionType.Some && opt.isNone()) {
+            return this.copy();
+        }
+        if (this.optionValue.type === OptionType.None && opt.isSome()) {
+            return opt.copy();
+        }
+        return Option.None<T>();
+    }
+
+    /**
+     * Zips the current Option with another Option.
+     * If both are Some, returns Some containing a tuple of both values. Otherwise, returns None.
+     *
+     * @param opt - The Option to zip with.
+     * @returns Some containing both values if both are Some, otherwise None.
+     */
+    zip<U>(opt: Option<U>): Option<[T, U]> {
+        return this.zipWith(opt, (a, b) => [a, b]);
+    }
+
+    /**
+     * Zips the current Option with another Option using the provided function.
+     * If both are Some, returns Some containing the result of the function. Otherwise, returns None.
+     *
+     * @param opt - The Option to zip with.
+     * @param op - A function that combines both values.
+     * @returns Some containing the combined value if both are Some, otherwise None.
+     */
+    zipWith<U, R>(opt: Option<U>, op: (value: T, other: U) => R): Option<R> {
+        if (this.optionValue.type === OptionType.Some && opt.optionValue.type === OptionType.Some) {
+            return Option.Some<R>(op(this.optionValue.value, opt.optionValue.value));
+        }
+        return Option.None<R>();
+    }
+
+    /**
+     * Unzips an Option containing a tuple into a tuple of Options.
+     *
+     * @returns A tuple of Some values if Some, otherwise a tuple of None values.
+     */
+    unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+        if (this.optionValue.type === OptionType.None) {
+            return [Option.None<A>(), Option.None<B>()];
+        }
+        const [a, b] = this.optionValue.value;
+        return [Option.Some<A>(a), Option.Some<B>(b)];
+    }
+
+    /**
+     * Removes one level of nesting from an Option containing another Option.
+     *
+     * @returns The inner Option if Some, otherwise None.
+     */
+    flatten<U>(this: Option<Option<U>>): Option<U> {
+        if (this.optionValue.type === OptionType.None) {
+            return Option.None<U>();
+        }
+        return this.optionValue.value.copy();
+    }
+
+    /**
+     * Takes the value out of the Option, leaving None in its place.
+     *
+     * @returns A new Option containing the previous value.
+     */
+    take(): Option<T> {
+        const taken = new Option<T>(this.optionValue);
+        this.optionValue = { type: OptionType.None };
+        return taken;
+    }
+
+    /**
+     * Takes the value out of the Option if it satisfies the predicate, leaving None in its place.
+     * Otherwise, the Option is left unchanged.
+     *
+     * @param predicate - A function to test the contained value.
+     * @returns A new Option containing the taken value, or None if nothing was taken.
+     */
+    takeIf(predicate: (value: T) => boolean): Option<T> {
+        if (this.isSomeAnd(predicate)) {
+            return this.take();
+        }
+        return Option.None<T>();
+    }
+
+    /**
+     * Replaces the contained value with the provided one, returning the previous value.
+     *
+     * @param value - The new value to store.
+     * @returns A new Option containing the previous value, or None if there was none.
+     */
+    replace(value: T): Option<T> {
+        const previous = new Option<T>(this.optionValue);
+        this.optionValue = { type: OptionType.Some, value };
+        return previous;
+    }
+
+    /**
+     * Returns the contained value if Some, otherwise stores the provided value and returns it.
+     *
+     * @param value - The value to store if the Option is None.
+     * @returns The contained or newly stored value.
+     */
+    getOrInsert(value: T): T {
+        return this.getOrInsertWith(() => value);
+    }
+
+    /**
+     * Returns the contained value if Some, otherwise stores the value returned by the callback and returns it.
+     *
+     * @param op - A callback function that produces the value to store if the Option is None.
+     * @returns The contained or newly stored value.
+     */
+    getOrInsertWith(op: () => T): T {
+        if (this.optionValue.type === OptionType.None) {
+            this.optionValue = { type: OptionType.Some, value: op() };
+        }
+        return this.optionValue.value;
+    }
+
+    /**
+     * Transforms the Option into a Result, mapping Some to Ok and None to Err with the provided error.
+     *
+     * @param err - The error to use if the Option is None.
+     * @returns Ok containing the value if Some, otherwise Err containing the provided error.
+     */
+    okOr<E>(err: E): Result<T, E> {
+        if (this.optionValue.type === OptionType.None) {
+            return Result.Err<T, E>(err);
+        }
+        return Result.Ok<T, E>(this.optionValue.value);
+    }
+
+    /**
+     * Transforms the Option into a Result, mapping Some to Ok and None to Err with the error returned by the callback.
+     *
+     * @param op - A callback function that produces the error if the Option is None.
+     * @returns Ok containing the value if Some, otherwise Err containing the produced error.
+     */
+    okOrElse<E>(op: () => E): Result<T, E> {
+        if (this.optionValue.type === OptionType.None) {
+            return Result.Err<T, E>(op());
+        }
+        return Result.Ok<T, E>(this.optionValue.value);
+    }
+
+    /**
+     * Transposes an Option of a Result into a Result of an Option.
+     *
+     * None is mapped to Ok(None), Some(Ok(value)) to Ok(Some(value)) and Some(Err(err)) to Err(err).
+     *
+     * @returns The transposed Result.
+     */
+    transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+        if (this.optionValue.type === OptionType.None) {
+            return Result.Ok<Option<U>, E>(Option.None<U>());
+        }
+        return this.optionValue.value.map(value => Option.Some<U>(value));
+    }
+
+    /**
+     * Returns the contained value if Some, or null if it is None.
+     *
+     * @returns The contained value if Some, otherwise null.
+     */
+    toNullable(): T | null {
+        if (this.optionValue.type === OptionType.None) {
+            return null;
+        }
+        return this.optionValue.value;
+    }
+
+    /**
+     * Formats the Option for debugging, like Rust's Debug output, e.g. `Some(42)` or `None`.
+     *
+     * @returns A readable representation of the variant and its contents.
+     */
+    toString(): string {
+        return formatValue(this);
+    }
+
+    /**
+     * Lets console.log and util.inspect in Node print the Option like toString does, instead of its internals.
+     *
+     * @returns A readable representation of the variant and its contents.
+     */
+    [inspectSymbol](): string {
+        return formatValue(this);
+    }
+}
@@ -0,0 +1,129 @@
+import { Result } from "./result";
+import { AsyncResult, Awaitable } from "./asyncResult";
+import { AbortError } from "./retry";
+
+/**
+ * A task run by Result.parallel, which receives an AbortSignal that aborts when the run fails fast.
+ */
+export type ParallelTask<T, E> = (signal: AbortSignal) => Awaitable<Result<T, E>>;
+
+/**
+ * The state of a run of Result.parallel, as passed to its progress callback.
+ */
+export interface ParallelProgress {
+    /**
+     * The number of tasks which settled, either Ok or Err.
+     */
+    completed: number,
+    /**
+     * The number of tasks which settled into Err.
+     */
+    failed: number,
+    /**
+     * The number of tasks.
+     */
+    total: number
+}
+
+/**
+ * Options for Result.parallel.
+ */
+export interface ParallelOptions {
+    /**
+     * The maximum number of tasks running at the same time. Defaults to no limit.
+     */
+    concurrency?: number,
+    /**
+     * Whether to settle into the first Err as soon as it arrives, aborting the running tasks and not starting the others.
+     * Defaults to false, which runs every task and collects every error.
+     */
+    failFast?: boolean,
+    /**
+     * Called every time a task settles.
+     * If it throws, no other task is started, the running tasks are aborted and the run rejects with the thrown error.
+     */
+    onProgress?: (progress: ParallelProgress) => void
+}
+
+/**
+ * Runs tasks with at most `concurrency` of them at the same time, in the order they are given.
+ *
+ * @param tasks - The tasks to run, each of which receives the AbortSignal of the run.
+ * @param options - The concurrency limit, the fail-fast behavior and the progress callback.
+ * @throws Throws a RangeError if the concurrency is less than 1, and rejects, aborting the running tasks,
+ * if a task or the progress callback throws, or if a task rejects.
+ * @returns An AsyncResult of Ok containing every value in order,
+ * or of Err containing the first error if failing fast, otherwise every error in order.
+ */
+export function parallel<T, E>(tasks: readonly ParallelTask<T, E>[], options: ParallelOptions = {}): AsyncResult<T[], E | E[]> {
+    const { concurrency = Infinity, failFast = false, onProgress } = options;
+    if (!(concurrency >= 1)) {
+        throw new RangeError(`Expected a concurrency of at least 1, got ${concurrency}`);
+    }
+    const controller = new AbortController();
+    return AsyncResult.from(new Promise<Result<T[], E | E[]>>((resolve, reject) => {
+        const total = tasks.length;
+        const settled: Result<T, E>[] = new Array(total);
+        let started = 0;
+        let running = 0;
+        let completed = 0;
+        let failed = 0;
+        let done = false;
+
+        const launch = () => {
+            while (!done && started < total && running < concurrency) {
+                run(started++);
+            }
+        };
+
+        const fail = (error: unknown) => {
+            done = true;
+            controller.abort(error);
+            reject(error);
+        };
+
+        const run = (index: number) => {
+            running++;
+            Promise.resolve().then(() => tasks[index](controller.signal)).then(
+                result => {
+                    running--;
+                    if (done) {
+                        return;
+                    }
+                    settled[index] = result;
+                    completed++;
+                    if (result.isErr()) {
+                        failed++;
+                    }
+                    try {
+                        onProgress?.({ completed, failed, total });
+                    } catch (error) {
+                        fail(error);
+                        return;
+                    }
+                    if (failFast && result.isErr()) {
+                        done = true;
+                        controller.abort(new AbortError(undefined, { message: "Another task failed", cause: result.error }));
+                        resolve(result as unknown as Result<T[], E>);
+                    } else if (completed === total) {
+                        done = true;
+                        resolve(Result.allSettled(settled));
+                    } else {
+                        launch();
+                    }
+                },
+                error => {
+                    running--;
+                    if (!done) {
+                        fail(error);
+                    }
+                }
+            );
+        };
+
+        if (total === 0) {
+            resolve(Result.Ok([]));
+        }
+        launch();
+    }));
+}
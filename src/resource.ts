@@ -0,0 +1,110 @@
+import { Result } from "./result";
+import { AsyncResult, Awaitable } from "./asyncResult";
+import { defineError } from "./errors";
+
+/**
+ * Returned or thrown by Result.bracket and Result.using when both the body and the release of the resource failed.
+ * Like the SuppressedError of explicit resource management, the primary error is kept as `error` and as `cause`,
+ * and the error of the release as `suppressed`.
+ */
+export class ReleaseError<E, R> extends defineError("ReleaseError")<{ error: E, suppressed: R }> {}
+
+/**
+ * The symbols of explicit resource management, resolved once. Runtimes which do not define them yet get the same
+ * registered symbols as the helpers which TypeScript emits for `using`, instead of properties named "undefined".
+ */
+export const disposeSymbol: typeof Symbol.dispose = Symbol.dispose ?? Symbol.for("Symbol.dispose") as typeof Symbol.dispose;
+export const asyncDisposeSymbol: typeof Symbol.asyncDispose = Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose") as typeof Symbol.asyncDispose;
+
+/**
+ * A resource which can be released with `using` or `await using`.
+ */
+export type DisposableResource = Disposable | AsyncDisposable;
+
+/**
+ * Checks whether a value can be released with `using` or `await using`.
+ */
+export function isDisposable(value: unknown): value is DisposableResource {
+    return typeof value === "object" && value !== null
+        && (typeof (value as Partial<AsyncDisposable>)[asyncDisposeSymbol] === "function" || typeof (value as Partial<Disposable>)[disposeSymbol] === "function");
+}
+
+/**
+ * Releases a resource, preferring its asynchronous disposal if it has both.
+ */
+export async function dispose(resource: DisposableResource): Promise<void> {
+    if (asyncDisposeSymbol in resource) {
+        await resource[asyncDisposeSymbol]();
+    } else {
+        resource[disposeSymbol]();
+    }
+}
+
+function releaseError<E, R>(error: E, suppressed: R): ReleaseError<E, R> {
+    return new ReleaseError<E, R>({ error, suppressed }, { message: "Failed to release the resource after an error", cause: error });
+}
+
+/**
+ * Acquires a resource, uses it and releases it, making sure that a resource which was acquired is always released,
+ * even if the body returns Err or throws.
+ *
+ * @param acquire - A function which acquires the resource. The body and the release are skipped if it returns Err.
+ * @param use - A function which uses the resource.
+ * @param release - A function which releases the resource, optionally returning a Result which may fail.
+ * @throws Rejects with the exception thrown by the body once the resource is released, or with the exception thrown by the release.
+ * If both the body and the release failed, and either of them threw, rejects with a ReleaseError of both errors.
+ * @returns An AsyncResult of the Result of the body, unless acquiring or releasing the resource failed.
+ */
+export function bracket<R, T, AE, E, RE = never>(
+    acquire: () => Awaitable<Result<R, AE>>,
+    use: (resource: R) => Awaitable<Result<T, E>>,
+    release: (resource: R) => Awaitable<Result<unknown, RE> | void>
+): AsyncResult<T, AE | E | RE | ReleaseError<E, RE>> {
+    return AsyncResult.from((async (): Promise<Result<T, AE | E | RE | ReleaseError<E, RE>>> => {
+        const acquired = await acquire();
+        if (acquired.isErr()) {
+            return acquired as unknown as Result<T, AE>;
+        }
+        const resource = acquired.unwrapUnchecked();
+        let outcome: Result<T, E>;
+        try {
+            outcome = await use(resource);
+        } catch (error) {
+            let released: Result<unknown, RE> | void;
+            try {
+                released = await release(resource);
+            } catch (suppressed) {
+                throw releaseError(error, suppressed);
+            }
+            throw released instanceof Result && released.isErr() ? releaseError(error, released.error) : error;
+        }
+        let released: Result<unknown, RE> | void;
+        try {
+            released = await release(resource);
+        } catch (suppressed) {
+            throw outcome.isErr() ? releaseError(outcome.error, suppressed) : suppressed;
+        }
+        if (!(released instanceof Result) || !released.isErr()) {
+            return outcome;
+        }
+        return Result.derivedErr(outcome.isErr() ? releaseError(outcome.error, released.error) : released.error);
+    })());
+}
+
+/**
+ * Like bracket, but releases the resource with its `Symbol.asyncDispose` or `Symbol.dispose` method,
+ * so that any resource written for `using` can be scoped to a Result computation.
+ *
+ * @param acquire - A function which acquires the resource. The body and the disposal are skipped if it returns Err.
+ * @param use - A function which uses the resource.
+ * @param mapError - A function that maps an exception thrown by the disposal into the error type.
+ * @throws Rejects with the exception thrown by the body once the resource is disposed, or with a ReleaseError if the disposal failed as well.
+ * @returns An AsyncResult of the Result of the body, unless acquiring or disposing the resource failed.
+ */
+export function using<R extends DisposableResource, T, AE, E, RE = Error>(
+    acquire: () => Awaitable<Result<R, AE>>,
+    use: (resource: R) => Awaitable<Result<T, E>>,
+    mapError?: (error: unknown) => RE
+): AsyncResult<T, AE | E | RE | ReleaseError<E, RE>> {
+    return bracket(acquire, use, resource => Result.fromPromise<void, RE>(dispose(resource), mapError));
+}
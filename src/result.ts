@@ -0,0 +1,1291 @@
+import { Option } from "./option";
+import { AsyncResult, Awaitable } from "./asyncResult";
+import { ContextError } from "./errors";
+import { ResultHooks, configure, panic, reportErr } from "./hooks";
+import { AbortError, RetryError, RetryOptions, TimeoutError, TimeoutOptions, retry, timeout } from "./retry";
+import { FromJSONOptions, ResultJSON, ResultParseError, runValidator } from "./json";
+import { Comparator, Equality, deepClone, deepEqual, deepHash, defaultCompare } from "./equality";
+import { formatValue, inspectSymbol } from "./format";
+import { Validated } from "./validated";
+import { ErrSink, EventEmitterLike, NodeCallback, fromCallback, once, toCallback, transformStream } from "./interop";
+import { DisposableResource, ReleaseError, asyncDisposeSymbol, bracket, dispose, disposeSymbol, isDisposable, using } from "./resource";
+import { ParallelOptions, ParallelTask, parallel } from "./parallel";
+
+/**
+ * Discriminates the variants of a Result
+ */
+export enum ResultType {
+    Ok = "Ok",
+    Err = "Err"
+}
+
+/**
+ * Contains the success value
+ */
+export interface Ok<T> {
+    type: ResultType.Ok,
+    value: T
+}
+
+/**
+ * Contains the error value
+ */
+export interface Err<E> {
+    type: ResultType.Err,
+    err: E
+}
+
+/**
+ * Discriminated union of both variants of a Result, as returned by Result.toUnion
+ */
+export type ResultValue<T, E> = Ok<T> | Err<E>;
+
+/**
+ * Type-only brand of OkResult and ErrResult, which keeps a Result whose value or error may be undefined,
+ * such as `Result<void, E>`, from being assignable to either of them.
+ */
+declare const variant: unique symbol;
+
+/**
+ * A Result narrowed to its Ok variant by Result.isOk, exposing the contained value directly
+ */
+export interface OkResult<T, E> extends Result<T, E> {
+    readonly [variant]: ResultType.Ok,
+    readonly value: T
+}
+
+/**
+ * A Result narrowed to its Err variant by Result.isErr, exposing the contained error directly
+ */
+export interface ErrResult<T, E> extends Result<T, E> {
+    readonly [variant]: ResultType.Err,
+    readonly error: E
+}
+
+/**
+ * Handlers for both variants of a Result, as accepted by Result.match.
+ */
+export interface MatchArms<T, E, U> {
+    Ok: (value: T) => U,
+    Err: (err: E) => U
+}
+
+/**
+ * Extracts the tag of an error, read from its `_tag` property, or from its `kind` property if it has no `_tag`.
+ */
+export type ErrTag<E> = E extends { _tag: infer Tag extends string } ? Tag : E extends { kind: infer Tag extends string } ? Tag : never;
+
+/**
+ * The variants of a discriminated union of errors which carry the given tag.
+ */
+export type TaggedWith<Tag extends string> = { _tag: Tag } | { kind: Tag };
+
+/**
+ * One handler per tag of a discriminated union of errors.
+ */
+type TaggedArms<E, U> = { [Tag in ErrTag<E>]: (err: Extract<E, TaggedWith<Tag>>) => U };
+
+/**
+ * Handlers for the Ok variant and for every tag of the Err variant, as accepted by Result.matchErr.
+ * Either every tag has a handler, or the `_` fallback handles the tags which do not.
+ * The fallback is always required if some errors carry no tag, such as a plain Error or a string.
+ */
+export type MatchErrArms<T, E, U> =
+    | ([Exclude<E, TaggedWith<string>>] extends [never] ? { Ok: (value: T) => U } & TaggedArms<E, U> : never)
+    | ({ Ok: (value: T) => U, _: (err: E) => U } & Partial<TaggedArms<E, U>>);
+
+/**
+ * Checks that a generator run by Result.gen yielded a Result, which is not the case if `yield*` was used without `.bind()`.
+ */
+function checkYielded(value: unknown): Result<unknown, unknown> {
+    if (!(value instanceof Result)) {
+        throw new TypeError(`Result.gen expected a Result to be yielded, got ${formatValue(value)}. Use \`yield* result.bind()\` to unwrap a Result`);
+    }
+    return value;
+}
+
+/**
+ * Maps an unknown thrown value into an Error, keeping it unchanged if it already is one.
+ */
+function toError(error: unknown): Error {
+    if (error instanceof Error) {
+        return error;
+    }
+    const wrapped = new Error(`Unexpected error: ${String(error)}`);
+    (wrapped as Error & { cause?: unknown }).cause = error;
+    return wrapped;
+}
+
+/**
+ * Extracts the error type from a union of yielded Results.
+ */
+type YieldedErr<Y> = Y extends Result<never, infer E> ? E : never;
+
+/**
+ * Extracts the success type from a Result.
+ */
+type OkValue<R> = R extends Result<infer T, unknown> ? T : never;
+
+/**
+ * Extracts the error type from a Result.
+ */
+type ErrValue<R> = R extends Result<unknown, infer E> ? E : never;
+
+/**
+ * Maps a tuple of Results to a tuple of their success types.
+ */
+type OkValues<R extends readonly unknown[]> = { -readonly [K in keyof R]: OkValue<R[K]> };
+
+/**
+ * Maps a tuple of Results to a tuple of their error types.
+ */
+type ErrValues<R extends readonly unknown[]> = { -readonly [K in keyof R]: ErrValue<R[K]> };
+
+/**
+ * Maps a tuple of awaitables to a tuple of their awaited types.
+ */
+type AwaitedAll<R extends readonly unknown[]> = { -readonly [K in keyof R]: Awaited<R[K]> };
+
+/**
+ * Maps a tuple of tasks to a tuple of the success types of their Results.
+ */
+type TaskValues<R extends readonly unknown[]> = { -readonly [K in keyof R]: R[K] extends ParallelTask<infer T, unknown> ? T : never };
+
+/**
+ * Extracts the error type from the Result of a task.
+ */
+type TaskErr<R> = R extends ParallelTask<unknown, infer E> ? E : never;
+
+/**
+ * Reads the tag of an error, from its `_tag` property or else from its `kind` property.
+ */
+export function errTag(err: unknown): string | undefined {
+    if (typeof err !== "object" || err === null) {
+        return undefined;
+    }
+    const { _tag, kind } = err as { _tag?: unknown, kind?: unknown };
+    if (typeof _tag === "string") {
+        return _tag;
+    }
+    return typeof kind === "string" ? kind : undefined;
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+    return typeof value === "object" && value !== null && typeof (value as PromiseLike<T>).then === "function";
+}
+
+/**
+ * A Result type representing either a success (Ok) with a value of type T or a failure (Err) with an error of type E.
+ */
+export class Result<T, E> {
+    // The variant and its contents are stored inline rather than in a nested ResultValue, so that a Result is a single allocation.
+    // Both fields are always assigned in the same order, so that every Result shares the same hidden class.
+    private readonly type: ResultType;
+    private readonly contents: T | E;
+
+    private constructor(type: ResultType, contents: T | E) {
+        this.type = type;
+        this.contents = contents;
+    }
+
+    // Results are immutable, so Ok Results of the most common constants are shared instead of allocated on every call.
+    private static readonly okUndefined = new Result<unknown, unknown>(ResultType.Ok, undefined);
+    private static readonly okNull = new Result<unknown, unknown>(ResultType.Ok, null);
+    private static readonly okTrue = new Result<unknown, unknown>(ResultType.Ok, true);
+    private static readonly okFalse = new Result<unknown, unknown>(ResultType.Ok, false);
+
+    /**
+     * The contained value if the Result is Ok, otherwise undefined.
+     * After narrowing with isOk(), it is typed as the success value.
+     */
+    get value(): T | undefined {
+        return this.type === ResultType.Ok ? this.contents as T : undefined;
+    }
+
+    /**
+     * The contained error if the Result is Err, otherwise undefined.
+     * After narrowing with isErr(), it is typed as the error.
+     */
+    get error(): E | undefined {
+        return this.type === ResultType.Err ? this.contents as E : undefined;
+    }
+
+    /**
+     * Creates a new Ok Result with the provided value.
+     *
+     * @param value - The success value to store.
+     * @returns A Result representing a successful outcome.
+     */
+    static Ok<T, E>(value: T): Result<T, E> {
+        switch (value) {
+            case undefined:
+                return Result.okUndefined as Result<T, E>;
+            case null:
+                return Result.okNull as Result<T, E>;
+            case true:
+                return Result.okTrue as Result<T, E>;
+            case false:
+                return Result.okFalse as Result<T, E>;
+            default:
+                return new Result<T, E>(ResultType.Ok, value);
+        }
+    }
+
+    /**
+     * Creates a new Err Result with the provided error.
+     *
+     * @param err - The error to store.
+     * @returns A Result representing a failure.
+     */
+    static Err<T, E>(err: E): Result<T, E> {
+        reportErr(err);
+        return new Result<T, E>(ResultType.Err, err);
+    }
+
+    /**
+     * Creates an Err without reporting it to the onErr hook, for the Errs which are derived from an Err that was already reported,
+     * or which are only created to be discarded.
+     *
+     * @internal
+     * @param err - The error to store.
+     * @returns A Result representing a failure.
+     */
+    static derivedErr<T, E>(err: E): Result<T, E> {
+        return new Result<T, E>(ResultType.Err, err);
+    }
+
+    /**
+     * Replaces the global observability hooks, e.g. to send every Err or unwrap panic to a logger or a tracing span.
+     * Passing an empty object removes every hook.
+     *
+     * @param hooks - An `onErr` hook called with the error of every Err when it is created, but not for the Errs derived from it, e.g. by mapErr,
+     * and an `onUnwrapPanic` hook called with every UnwrapError right before it is thrown.
+     * @returns The hooks which were configured before, so they can be restored.
+     */
+    static configure(hooks: ResultHooks): ResultHooks {
+        return configure(hooks);
+    }
+
+    /**
+     * Calls the provided function, capturing its return value as Ok and anything it throws as Err.
+     *
+     * Without a mapError callback, thrown Errors are kept as-is and other thrown values are wrapped in an Error.
+     *
+     * @param fn - The function to call.
+     * @param mapError - A function that maps the thrown value into the error type.
+     * @returns Ok containing the return value, or Err containing the mapped thrown value.
+     */
+    static try<T, E = Error>(fn: () => T, mapError?: (error: unknown) => E): Result<T, E> {
+        try {
+            return Result.Ok<T, E>(fn());
+        } catch (error) {
+            return Result.Err<T, E>(mapError ? mapError(error) : toError(error) as E);
+        }
+    }
+
+    /**
+     * Creates an AsyncResult from a promise, capturing its resolved value as Ok and its rejection reason as Err.
+     *
+     * Without a mapError callback, rejection Errors are kept as-is and other rejection reasons are wrapped in an Error.
+     *
+     * @param promise - The promise to wrap.
+     * @param mapError - A function that maps the rejection reason into the error type.
+     * @returns An AsyncResult of Ok containing the resolved value, or of Err containing the mapped rejection reason.
+     */
+    static fromPromise<T, E = Error>(promise: PromiseLike<T>, mapError?: (error: unknown) => E): AsyncResult<T, E> {
+        return AsyncResult.from(Promise.resolve(promise).then(
+            value => Result.Ok<T, E>(value),
+            error => Result.Err<T, E>(mapError ? mapError(error) : toError(error) as E)
+        ));
+    }
+
+    /**
+     * Turns a throwing or rejecting function into one which returns a Result or an AsyncResult instead.
+     *
+     * Functions returning a promise are wrapped into functions returning an AsyncResult,
+     * any other function is wrapped into a function returning a Result.
+     * A promise-returning function which throws before returning its promise yields a Result.
+     *
+     * @param fn - The function to wrap.
+     * @param mapError - A function that maps thrown values and rejection reasons into the error type.
+     * @returns A function with the same parameters which never throws.
+     */
+    static wrap<A extends unknown[], T, E = Error>(fn: (...args: A) => Promise<T>, mapError?: (error: unknown) => E): (...args: A) => AsyncResult<T, E>;
+    static wrap<A extends unknown[], T, E = Error>(fn: (...args: A) => T, mapError?: (error: unknown) => E): (...args: A) => Result<T, E>;
+    static wrap<A extends unknown[], T, E = Error>(fn: (...args: A) => T | PromiseLike<T>, mapError?: (error: unknown) => E): (...args: A) => Result<T, E> | AsyncResult<T, E> {
+        return (...args: A) => {
+            const result = Result.try<T | PromiseLike<T>, E>(() => fn(...args), mapError);
+            if (result.isOkAnd(isPromiseLike)) {
+                return Result.fromPromise(result.unwrapUnchecked() as PromiseLike<T>, mapError);
+            }
+            return result as Result<T, E>;
+        };
+    }
+
+    /**
+     * Runs a generator in which `yield* result.bind()` unwraps the Ok value of a Result, similar to Rust's `?` operator.
+     * The first Err that is yielded short-circuits the generator and is returned as-is,
+     * otherwise the value returned by the generator is wrapped in Ok.
+     *
+     * Async generators may also `yield*` bound AsyncResults, in which case an AsyncResult is returned.
+     *
+     * @param body - A generator function that yields Results and returns the success value.
+     * @throws Throws a TypeError, or rejects with one for async generators, if the generator yields anything but a Result,
+     * e.g. because `yield*` was used on a Result without `.bind()`.
+     * @returns The first yielded Err, or Ok containing the returned value.
+     */
+    static gen<Y extends Result<never, unknown>, T>(body: () => AsyncGenerator<Y, T, unknown>): AsyncResult<T, YieldedErr<Y>>;
+    static gen<Y extends Result<never, unknown>, T>(body: () => Generator<Y, T, unknown>): Result<T, YieldedErr<Y>>;
+    static gen<Y extends Result<never, unknown>, T>(body: () => Generator<Y, T, unknown> | AsyncGenerator<Y, T, unknown>): Result<T, YieldedErr<Y>> | AsyncResult<T, YieldedErr<Y>> {
+        const iterator = body();
+        if (Symbol.asyncIterator in iterator) {
+            return AsyncResult.from((async () => {
+                const step = await iterator.next();
+                if (!step.done) {
+                    await iterator.return(undefined as never);
+                    return checkYielded(step.value) as Result<T, YieldedErr<Y>>;
+                }
+                return Result.Ok<T, YieldedErr<Y>>(step.value);
+            })());
+        }
+        const step = iterator.next();
+        if (!step.done) {
+            iterator.return(undefined as never);
+            return checkYielded(step.value) as Result<T, YieldedErr<Y>>;
+        }
+        return Result.Ok<T, YieldedErr<Y>>(step.value);
+    }
+
+    /**
+     * Combines a list of Results into a single Result of a list of values.
+     * The first Err in the list is returned, otherwise Ok containing every value in order.
+     *
+     * The types of tuples are preserved, so `Result.all([a, b])` yields `Result<[A, B], EA | EB>`.
+     *
+     * @param results - The Results to combine.
+     * @returns Ok containing every value, or the first Err.
+     */
+    static all<R extends readonly Result<unknown, unknown>[]>(results: readonly [...R]): Result<OkValues<R>, ErrValue<R[number]>> {
+        return Result.collect(results) as Result<OkValues<R>, ErrValue<R[number]>>;
+    }
+
+    /**
+     * Asynchronous counterpart of Result.all, which awaits every Result in parallel before combining them.
+     *
+     * @param results - The Results, AsyncResults or promises of Results to combine.
+     * @returns An AsyncResult of Ok containing every value, or of the first Err.
+     */
+    static allAsync<R extends readonly Awaitable<Result<unknown, unknown>>[]>(results: readonly [...R]): AsyncResult<OkValues<AwaitedAll<R>>, ErrValue<Awaited<R[number]>>> {
+        return AsyncResult.from(Promise.all(results).then(settled => Result.all(settled))) as AsyncResult<OkValues<AwaitedAll<R>>, ErrValue<Awaited<R[number]>>>;
+    }
+
+    /**
+     * Combines a list of Results into a single Result, accumulating every error instead of stopping at the first one.
+     *
+     * @param results - The Results to combine.
+     * @returns Ok containing every value if all are Ok, otherwise Err containing every error in order.
+     */
+    static allSettled<R extends readonly Result<unknown, unknown>[]>(results: readonly [...R]): Result<OkValues<R>, ErrValue<R[number]>[]> {
+        const [values, errors] = Result.partition(results);
+        if (errors.length > 0) {
+            return Result.derivedErr(errors) as Result<OkValues<R>, ErrValue<R[number]>[]>;
+        }
+        return Result.Ok(values) as Result<OkValues<R>, ErrValue<R[number]>[]>;
+    }
+
+    /**
+     * Asynchronous counterpart of Result.allSettled, which awaits every Result in parallel before combining them.
+     *
+     * @param results - The Results, AsyncResults or promises of Results to combine.
+     * @returns An AsyncResult of Ok containing every value if all are Ok, otherwise of Err containing every error.
+     */
+    static allSettledAsync<R extends readonly Awaitable<Result<unknown, unknown>>[]>(results: readonly [...R]): AsyncResult<OkValues<AwaitedAll<R>>, ErrValue<Awaited<R[number]>>[]> {
+        return AsyncResult.from(Promise.all(results).then(settled => Result.allSettled(settled))) as AsyncResult<OkValues<AwaitedAll<R>>, ErrValue<Awaited<R[number]>>[]>;
+    }
+
+    /**
+     * Returns the first Ok in a list of Results.
+     * If there is none, returns Err containing every error in order.
+     *
+     * @param results - The Results to search.
+     * @returns The first Ok, or Err containing every error.
+     */
+    static any<R extends readonly Result<unknown, unknown>[]>(results: readonly [...R]): Result<OkValue<R[number]>, ErrValues<R>> {
+        const errors: unknown[] = [];
+        for (const result of results) {
+            if (result.type === ResultType.Ok) {
+                return result as Result<OkValue<R[number]>, ErrValues<R>>;
+            }
+            errors.push(result.contents);
+        }
+        return Result.derivedErr(errors) as Result<OkValue<R[number]>, ErrValues<R>>;
+    }
+
+    /**
+     * Asynchronous counterpart of Result.any, which awaits every Result in parallel before searching them.
+     *
+     * @param results - The Results, AsyncResults or promises of Results to search.
+     * @returns An AsyncResult of the first Ok, or of Err containing every error.
+     */
+    static anyAsync<R extends readonly Awaitable<Result<unknown, unknown>>[]>(results: readonly [...R]): AsyncResult<OkValue<Awaited<R[number]>>, ErrValues<AwaitedAll<R>>> {
+        return AsyncResult.from(Promise.all(results).then(settled => Result.any(settled))) as AsyncResult<OkValue<Awaited<R[number]>>, ErrValues<AwaitedAll<R>>>;
+    }
+
+    /**
+     * Splits Results into the values of the Ok variants and the errors of the Err variants.
+     *
+     * @param results - The Results to split.
+     * @returns A tuple of every value and every error, each in order.
+     */
+    static partition<T, E>(results: Iterable<Result<T, E>>): [T[], E[]] {
+        const values: T[] = [];
+        const errors: E[] = [];
+        for (const result of results) {
+            if (result.type === ResultType.Ok) {
+                values.push(result.contents as T);
+            } else {
+                errors.push(result.contents as E);
+            }
+        }
+        return [values, errors];
+    }
+
+    /**
+     * Asynchronous counterpart of Result.partition, which consumes an async iterable or an iterable of promises.
+     *
+     * @param results - The Results to split.
+     * @returns A promise of a tuple of every value and every error, each in order.
+     */
+    static async partitionAsync<T, E>(results: Iterable<Awaitable<Result<T, E>>> | AsyncIterable<Result<T, E>>): Promise<[T[], E[]]> {
+        const collected: Result<T, E>[] = [];
+        for await (const result of results) {
+            collected.push(result);
+        }
+        return Result.partition(collected);
+    }
+
+    /**
+     * Collects the values of an iterable of Results into a list, stopping at the first Err.
+     *
+     * @param results - The Results to collect.
+     * @returns Ok containing every value, or the first Err.
+     */
+    static collect<T, E>(results: Iterable<Result<T, E>>): Result<T[], E> {
+        const values: T[] = [];
+        for (const result of results) {
+            if (result.type === ResultType.Err) {
+                return result as unknown as Result<T[], E>;
+            }
+            values.push(result.contents as T);
+        }
+        return Result.Ok<T[], E>(values);
+    }
+
+    /**
+     * Asynchronous counterpart of Result.collect, which consumes an async iterable or an iterable of promises.
+     * Iteration stops at the first Err, so the rest of the source is never pulled.
+     *
+     * @param results - The Results to collect.
+     * @returns An AsyncResult of Ok containing every value, or of the first Err.
+     */
+    static collectAsync<T, E>(results: Iterable<Awaitable<Result<T, E>>> | AsyncIterable<Result<T, E>>): AsyncResult<T[], E> {
+        return AsyncResult.from((async () => {
+            const values: T[] = [];
+            for await (const result of results) {
+                if (result.type === ResultType.Err) {
+                    return result as unknown as Result<T[], E>;
+                }
+                values.push(result.contents as T);
+            }
+            return Result.Ok<T[], E>(values);
+        })());
+    }
+
+    /**
+     * Calls an operation until it returns Ok, waiting between attempts according to the backoff policy.
+     * Once the attempts are exhausted, or an error should not be retried, the error of every attempt is returned in a RetryError.
+     *
+     * @param op - The operation, which receives the number of the attempt, starting at 1, and the AbortSignal if any.
+     * @param options - The number of attempts, the backoff policy, the AbortSignal and the Clock to use.
+     * @returns An AsyncResult of the first Ok, of a RetryError with every error, or of an AbortError if aborted.
+     */
+    static retry<T, E>(op: (attempt: number, signal?: AbortSignal) => Awaitable<Result<T, E>>, options?: RetryOptions<E>): AsyncResult<T, RetryError<E> | AbortError> {
+        return retry(op, options);
+    }
+
+    /**
+     * Settles into a TimeoutError if the Result does not settle within the given time.
+     * With an AbortSignal, the Result also settles into an AbortError as soon as the signal aborts.
+     *
+     * @param result - The Result, AsyncResult or promise of a Result to wait for.
+     * @param ms - The time limit in milliseconds.
+     * @param options - The Clock to use and an optional AbortSignal.
+     * @returns An AsyncResult of the Result if it settled in time, otherwise of a TimeoutError.
+     */
+    static timeout<T, E>(result: Awaitable<Result<T, E>>, ms: number, options?: TimeoutOptions & { signal?: undefined }): AsyncResult<T, E | TimeoutError>;
+    static timeout<T, E>(result: Awaitable<Result<T, E>>, ms: number, options: TimeoutOptions): AsyncResult<T, E | TimeoutError | AbortError>;
+    static timeout<T, E>(result: Awaitable<Result<T, E>>, ms: number, options?: TimeoutOptions): AsyncResult<T, E | TimeoutError | AbortError> {
+        return timeout(result, ms, options ?? {});
+    }
+
+    /**
+     * Runs Result-returning tasks with bounded parallelism, and combines their Results like Result.allSettled, or like Result.all when failing fast.
+     *
+     * Every task receives an AbortSignal, which aborts when the run fails fast. The types of tuples are preserved.
+     *
+     * ```
+     * await Result.parallel(ids.map(id => signal => fetchUser(id, signal)), { concurrency: 8, failFast: true });
+     * ```
+     *
+     * @param tasks - The tasks to run, in order.
+     * @param options - The maximum number of tasks running at the same time, whether to fail fast, and a progress callback.
+     * @throws Throws a RangeError if the concurrency is less than 1, and rejects if a task throws or rejects.
+     * @returns An AsyncResult of Ok containing every value in order,
+     * or of Err containing the first error if failing fast, otherwise every error in order.
+     */
+    static parallel<R extends readonly ParallelTask<unknown, unknown>[]>(tasks: readonly [...R], options: ParallelOptions & { failFast: true }): AsyncResult<TaskValues<R>, TaskErr<R[number]>>;
+    static parallel<R extends readonly ParallelTask<unknown, unknown>[]>(tasks: readonly [...R], options?: ParallelOptions & { failFast?: false }): AsyncResult<TaskValues<R>, TaskErr<R[number]>[]>;
+    static parallel<R extends readonly ParallelTask<unknown, unknown>[]>(tasks: readonly [...R], options?: ParallelOptions): AsyncResult<TaskValues<R>, TaskErr<R[number]> | TaskErr<R[number]>[]>;
+    static parallel<R extends readonly ParallelTask<unknown, unknown>[]>(tasks: readonly [...R], options?: ParallelOptions): AsyncResult<TaskValues<R>, TaskErr<R[number]> | TaskErr<R[number]>[]> {
+        return parallel(tasks, options) as AsyncResult<TaskValues<R>, TaskErr<R[number]> | TaskErr<R[number]>[]>;
+    }
+
+    /**
+     * Bridges a Node-style callback API into an AsyncResult.
+     *
+     * ```
+     * const content = await Result.fromCallback<string>(cb => fs.readFile(path, "utf8", cb));
+     * ```
+     *
+     * @param fn - A function which starts the operation and passes the callback along.
+     * @param mapError - A function that maps the error passed to the callback, or anything thrown synchronously, into the error type.
+     * @returns An AsyncResult of Ok containing the value passed to the callback, or of Err containing the mapped error.
+     */
+    static fromCallback<T, E = Error>(fn: (callback: NodeCallback<T>) => void, mapError?: (error: unknown) => E): AsyncResult<T, E> {
+        return fromCallback(fn, mapError);
+    }
+
+    /**
+     * Settles a Result into a Node-style callback, calling it with `(null, value)` if Ok and with `(err)` if Err.
+     * The callback is always called asynchronously.
+     *
+     * @param result - The Result, AsyncResult or promise of a Result to settle.
+     * @param callback - The Node-style callback.
+     */
+    static toCallback<T, E>(result: Awaitable<Result<T, E>>, callback: NodeCallback<T, unknown>): void {
+        toCallback(result, callback);
+    }
+
+    /**
+     * Waits for the first of a success and an error event, whose first argument becomes the value or the error.
+     *
+     * @param emitter - The EventEmitter to listen to.
+     * @param successEvent - The event which settles into Ok.
+     * @param errorEvent - The event which settles into Err. Defaults to "error".
+     * @returns An AsyncResult which settles on the first of both events.
+     */
+    static once<T, E = Error>(emitter: EventEmitterLike, successEvent: string | symbol, errorEvent?: string | symbol): AsyncResult<T, E> {
+        return once(emitter, successEvent, errorEvent);
+    }
+
+    /**
+     * Creates a TransformStream which maps every chunk through a Result-returning function,
+     * passing the value of every Ok downstream and sending the error of every Err to a separate sink.
+     *
+     * @param op - A function that maps every chunk into a Result, which may be asynchronous.
+     * @param errors - A WritableStream, which is closed once every chunk went through, or a callback receiving every error.
+     * @returns A TransformStream of the values of every Ok.
+     */
+    static transformStream<I, O, E>(op: (chunk: I) => Awaitable<Result<O, E>>, errors: ErrSink<E, I>): TransformStream<I, O> {
+        return transformStream(op, errors);
+    }
+
+    /**
+     * Acquires a resource, uses it and releases it. Once the resource is acquired, it is always released,
+     * whether the body returns Ok, returns Err or throws.
+     *
+     * If both the body and the release fail, the error of the release is combined with the error of the body into a ReleaseError.
+     *
+     * ```
+     * Result.bracket(() => pool.connect(), conn => conn.query(sql), conn => conn.release());
+     * ```
+     *
+     * @param acquire - A function which acquires the resource. The body and the release are skipped if it returns Err.
+     * @param use - A function which uses the resource.
+     * @param release - A function which releases the resource, optionally returning a Result which may fail.
+     * @throws Rejects with the exception thrown by the body once the resource is released.
+     * @returns An AsyncResult of the Result of the body, or of the error of the acquisition or the release.
+     */
+    static bracket<R, T, AE, E, RE = never>(
+        acquire: () => Awaitable<Result<R, AE>>,
+        use: (resource: R) => Awaitable<Result<T, E>>,
+        release: (resource: R) => Awaitable<Result<unknown, RE> | void>
+    ): AsyncResult<T, AE | E | RE | ReleaseError<E, RE>> {
+        return bracket(acquire, use, release);
+    }
+
+    /**
+     * Like Result.bracket, but releases the resource with its `Symbol.asyncDispose` or `Symbol.dispose` method.
+     *
+     * @param acquire - A function which acquires the disposable resource. The body and the disposal are skipped if it returns Err.
+     * @param use - A function which uses the resource.
+     * @param mapError - A function that maps an exception thrown by the disposal into the error type.
+     * @throws Rejects with the exception thrown by the body once the resource is disposed.
+     * @returns An AsyncResult of the Result of the body, or of the error of the acquisition or the disposal.
+     */
+    static using<R extends DisposableResource, T, AE, E, RE = Error>(
+        acquire: () => Awaitable<Result<R, AE>>,
+        use: (resource: R) => Awaitable<Result<T, E>>,
+        mapError?: (error: unknown) => RE
+    ): AsyncResult<T, AE | E | RE | ReleaseError<E, RE>> {
+        return using(acquire, use, mapError);
+    }
+
+    /**
+     * Rebuilds a Result from its serialized form, as produced by Result.toJSON.
+     *
+     * The payload may be a JSON string or an already parsed value. A malformed payload,
+     * or a value or error rejected by the provided validators, yields Err containing a ResultParseError.
+     *
+     * @param raw - The serialized Result, either as a JSON string or as a parsed value.
+     * @param options - Validators for the Ok value and the Err error.
+     * @returns The deserialized Result, or Err containing a ResultParseError.
+     */
+    static fromJSON<T, E>(raw: unknown, options: FromJSONOptions<T, E> = {}): Result<T, E | ResultParseError> {
+        let payload = raw;
+        if (typeof raw === "string") {
+            const parsed = Result.try(() => JSON.parse(raw) as unknown, error => new ResultParseError("Invalid JSON", error));
+            if (parsed.type === ResultType.Err) {
+                return parsed as unknown as Result<T, ResultParseError>;
+            }
+            payload = parsed.contents;
+        }
+        if (typeof payload !== "object" || payload === null || typeof (payload as { ok?: unknown }).ok !== "boolean") {
+            return Result.Err(new ResultParseError("Expected an object with a boolean \"ok\" property"));
+        }
+        if ((payload as { ok: boolean }).ok) {
+            const value = (payload as { value?: unknown }).value;
+            return options.validateOk ? runValidator(options.validateOk, value, "Invalid Ok value") : Result.Ok(value as T);
+        }
+        // JSON.stringify drops undefined properties, so a missing value or error is read as undefined
+        const error = (payload as { error?: unknown }).error;
+        if (!options.validateErr) {
+            return Result.Err(error as E);
+        }
+        const validated = runValidator(options.validateErr, error, "Invalid Err error");
+        if (validated.type === ResultType.Err) {
+            return validated as unknown as Result<T, ResultParseError>;
+        }
+        return Result.Err(validated.contents as E);
+    }
+
+    /**
+     * Orders two Results like Rust does: every Ok is less than every Err, and Results of the same variant are ordered by their contents.
+     * Can be passed directly to Array.prototype.sort.
+     *
+     * @param a - The first Result.
+     * @param b - The second Result.
+     * @param compareValue - Orders the values of two Ok Results. Defaults to comparing them with < and >, and arrays lexicographically.
+     * @param compareErr - Orders the errors of two Err Results. Defaults to comparing them with < and >, and arrays lexicographically.
+     * @returns A negative number if a is less than b, a positive number if it is greater, otherwise 0.
+     */
+    static compare<T, E>(a: Result<T, E>, b: Result<T, E>, compareValue: Comparator<T> = defaultCompare, compareErr: Comparator<E> = defaultCompare): number {
+        if (a.type === ResultType.Ok) {
+            return b.type === ResultType.Ok ? compareValue(a.contents as T, b.contents as T) : -1;
+        }
+        return b.type === ResultType.Err ? compareErr(a.contents as E, b.contents as E) : 1;
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value if it is an Ok variant.
+     * Otherwise, throws an Error with a message including the contained error.
+     *
+     * @throws Will throw an UnwrapError, with the contained error as its cause, if the Result is an Err variant.
+     * @returns The contained value if Ok.
+     */
+    unwrap(): T {
+        if (this.type === ResultType.Err) {
+            panic(`Called Result.unwrap() on an Error value: ${formatValue(this.contents as E)}`, this.contents as E);
+        }
+        return this.contents as T;
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value if it is Ok.
+     * If the Result is Err, returns the result of the provided callback which receives the error.
+     *
+     * @param op - A callback function that receives the error and returns a fallback value.
+     * @returns The contained value if Ok, or the fallback value produced by the callback if Err.
+     */
+    unwrapOrElse(op: (err: E) => T): T {
+        if (this.type === ResultType.Ok) {
+            return this.contents as T;
+        }
+        return op(this.contents as E);
+    }
+
+    /**
+     * Unwraps the Result and returns the contained error if it is an Err variant.
+     * Otherwise, throws an Error with a message including the contained value.
+     *
+     * @throws Will throw an UnwrapError if the Result is an Ok variant.
+     * @returns The contained error if Err.
+     */
+    unwrapErr(): E {
+        if (this.type === ResultType.Err) {
+            return this.contents as E;
+        }
+        panic(`Called Result.unwrapErr() on an Ok value: ${formatValue(this.contents as T)}`);
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value if it is Ok.
+     * Otherwise, returns the provided default value.
+     *
+     * @param defaultValue - The default value to return if the Result is Err.
+     * @returns The contained value if Ok, or the default value if Err.
+     */
+    unwrapOr(defaultValue: T): T {
+        if (this.type === ResultType.Err) {
+            return defaultValue;
+        }
+        return this.contents as T;
+    }
+
+    /**
+     * Unwraps the Result without performing any error or type checking.
+     * 
+     * **Use with caution**: if the Result is Err, this may lead to unexpected behavior.
+     *
+     * @returns The contained value (or undefined if Err).
+     */
+    unwrapUnchecked(): T {
+        return (this.type === ResultType.Ok ? this.contents : undefined) as T;
+    }
+
+    /**
+     * Unwraps the Result's error without performing any error or type checking.
+     * 
+     * **Use with caution**: if the Result is Ok, this may lead to unexpected behavior.
+     *
+     * @returns The contained error (or undefined if Ok).
+     */
+    unwrapErrUnchecked(): E {
+        return (this.type === ResultType.Err ? this.contents : undefined) as E;
+    }
+
+    /**
+     * Unwraps the Result, returning the contained value if it is Ok.
+     * If it is Err, throws an Error with the provided custom message and the contained error.
+     *
+     * @param msg - Custom message to include if the Result is Err.
+     * @throws Will throw an UnwrapError with the provided message, and the contained error as its cause, if the Result is Err.
+     * @returns The contained value if Ok.
+     */
+    expect(msg: string): T {
+        if (this.type === ResultType.Err) {
+            panic(`${msg}: ${formatValue(this.contents as E)}`, this.contents as E);
+        }
+        return this.contents as T;
+    }
+
+    /**
+     * Unwraps the Result, returning the contained error if it is Err.
+     * If it is Ok, throws an Error with the provided custom message and the contained value.
+     *
+     * @param msg - Custom message to include if the Result is Ok.
+     * @throws Will throw an UnwrapError with the provided message if the Result is Ok.
+     * @returns The contained error if Err.
+     */
+    expectErr(msg: string): E {
+        if (this.type === ResultType.Err) {
+            return this.contents as E;
+        }
+        panic(`${msg}: ${formatValue(this.contents as T)}`);
+    }
+
+    /**
+     * Returns the contained value if the Result is Ok, or null if it is Err.
+     *
+     * @returns The contained value if Ok, otherwise null.
+     */
+    ok(): T | null {
+        if (this.type === ResultType.Err) {
+            return null;
+        }
+        return this.contents as T;
+    }
+
+    /**
+     * Converts the Result into an Option of its success value, discarding the error if any.
+     *
+     * @returns Some containing the value if Ok, otherwise None.
+     */
+    okOption(): Option<T> {
+        if (this.type === ResultType.Err) {
+            return Option.None<T>();
+        }
+        return Option.Some<T>(this.contents as T);
+    }
+
+    /**
+     * Checks if the Result is an Ok variant, narrowing it to an OkResult which exposes the contained value.
+     *
+     * @returns True if the Result is Ok, otherwise false.
+     */
+    isOk(): this is OkResult<T, E> {
+        return this.type === ResultType.Ok;
+    }
+
+    /**
+     * Checks if the Result is Ok and the contained value satisfies the provided predicate.
+     *
+     * @param predicate - A function to test the contained value.
+     * @returns True if the Result is Ok and the value passes the predicate, otherwise false.
+     */
+    isOkAnd(predicate: (value: T) => boolean): boolean {
+        return this.type === ResultType.Ok && predicate(this.contents as T);
+    }
+
+    /**
+     * Returns the contained error if the Result is Err, or null if it is Ok.
+     *
+     * @returns The contained error if Err, otherwise null.
+     */
+    err(): E | null {
+        if (this.type === ResultType.Err) {
+            return this.contents as E;
+        }
+        return null;
+    }
+
+    /**
+     * Converts the Result into an Option of its error, discarding the success value if any.
+     *
+     * @returns Some containing the error if Err, otherwise None.
+     */
+    errOption(): Option<E> {
+        if (this.type === ResultType.Err) {
+            return Option.Some<E>(this.contents as E);
+        }
+        return Option.None<E>();
+    }
+
+    /**
+     * Checks if the Result is an Err variant, narrowing it to an ErrResult which exposes the contained error.
+     *
+     * @returns True if the Result is Err, otherwise false.
+     */
+    isErr(): this is ErrResult<T, E> {
+        return this.type === ResultType.Err;
+    }
+
+    /**
+     * Checks if the Result is Err and the contained error satisfies the provided predicate.
+     *
+     * @param predicate - A function to test the contained error.
+     * @returns True if the Result is Err and the error passes the predicate, otherwise false.
+     */
+    isErrAnd(predicate: (err: E) => boolean): boolean {
+        return this.type === ResultType.Err && predicate(this.contents as E);
+    }
+
+    /**
+     * Returns the current Result if it is Ok, or a provided default Result if it is Err.
+     *
+     * @param res - A default Result to return if the current Result is Err.
+     * @returns The current Result if Ok, otherwise the provided default Result.
+     */
+    or(res: Result<T, E>): Result<T, E> {
+        if (this.type === ResultType.Err) {
+            return res;
+        }
+        return this;
+    }
+
+    /**
+     * Returns the current Result if it is Ok, or the Result returned by a callback if it is Err.
+     *
+     * @param op - A callback function that receives the error and returns an alternative Result.
+     * @returns The current Result if Ok, otherwise the alternative Result produced by the callback.
+     */
+    orElse(op: (error: E) => Result<T, E>): Result<T, E> {
+        if (this.type === ResultType.Err) {
+            return op(this.contents as E);
+        }
+        return this;
+    }
+
+    /**
+     * If the Result is Ok, returns the provided Result.
+     * If the Result is Err, returns the contained Err.
+     *
+     * @param res - A Result to return if the current Result is Ok.
+     * @returns The provided Result if the current Result is Ok, or the contained error if Err.
+     */
+    and<U>(res: Result<U, E>): Result<U, E> {
+        if (this.type === ResultType.Err) {
+            return this as unknown as Result<U, E>;
+        }
+        return res;
+    }
+
+    /**
+     * If the Result is Ok, calls the provided function with the contained value and returns its Result.
+     * If the Result is Err, returns the contained Err.
+     *
+     * @param op - A function that takes the contained value and returns an alternative Result.
+     * @returns The Result returned by the callback if Ok, or the contained error if Err.
+     */
+    andThen<U>(op: (value: T) => Result<U, E>): Result<U, E> {
+        if (this.type === ResultType.Err) {
+            return this as unknown as Result<U, E>
+        }
+        return op(this.contents as T);
+    }
+
+    /**
+     * Transforms an Ok value by applying the provided function to it.
+     * If the Result is Err, it is left unchanged.
+     *
+     * @param op - A function that transforms the contained value.
+     * @returns A new Result containing the transformed value if Ok, or the original Err.
+     */
+    map<U>(op: (value: T) => U): Result<U, E> {
+        if (this.type === ResultType.Err) {
+            return this as unknown as Result<U, E>;
+        }
+        const mapped = op(this.contents as T);
+        // Reuse the current Result when the value is unchanged, e.g. when a step of a pipeline only validates it
+        return (mapped as unknown) === this.contents ? this as unknown as Result<U, E> : Result.Ok<U, E>(mapped);
+    }
+
+    /**
+     * Maps an Ok value using the provided function, or returns a default value if the Result is Err.
+     *
+     * @param defaultValue - The default value to return if the Result is Err.
+     * @param op - A function that transforms the contained value.
+     * @returns The transformed value if Ok, or the default value if Err.
+     */
+    mapOr<U>(defaultValue: U, op: (value: T) => U): U {
+        if (this.type === ResultType.Err) {
+            return defaultValue;
+        }
+        return op(this.contents as T);
+    }
+
+    /**
+     * Maps an Ok value using the provided function, or computes a default value using a callback if the Result is Err.
+     *
+     * @param defaultOp - A function that computes a default value from the contained error.
+     * @param op - A function that transforms the contained value.
+     * @returns The transformed value if Ok, or the computed default value if Err.
+     */
+    mapOrElse<U>(defaultOp: (err: E) => U, op: (value: T) => U): U {
+        if (this.type === ResultType.Err) {
+            return defaultOp(this.contents as E);
+        }
+        return op(this.contents as T);
+    }
+
+    /**
+     * Calls the handler matching the variant of the Result with the contained value or error.
+     *
+     * @param arms - An `Ok` handler receiving the contained value and an `Err` handler receiving the contained error.
+     * @returns The value returned by the matching handler.
+     */
+    match<U>(arms: MatchArms<T, E, U>): U {
+        if (this.type === ResultType.Err) {
+            return arms.Err(this.contents as E);
+        }
+        return arms.Ok(this.contents as T);
+    }
+
+    /**
+     * Calls the handler matching the variant of the Result, dispatching Err on the tag of a discriminated union of errors.
+     * The tag is read from the `_tag` property of the error, or from its `kind` property if it has no `_tag`.
+     *
+     * Every tag must have a handler, unless a `_` fallback handler is provided.
+     *
+     * @param arms - An `Ok` handler, one handler per error tag and an optional `_` fallback handler.
+     * @throws Will throw an error if the Result is Err and no handler matches its tag.
+     * @returns The value returned by the matching handler.
+     */
+    matchErr<U>(arms: MatchErrArms<T, E, U>): U {
+        if (this.type === ResultType.Ok) {
+            return arms.Ok(this.contents as T);
+        }
+        const err = this.contents as E;
+        const handlers = arms as unknown as Record<string, ((err: E) => U) | undefined>;
+        const tag = errTag(err);
+        const handler = tag !== undefined && Object.prototype.hasOwnProperty.call(handlers, tag) ? handlers[tag] : handlers._;
+        if (!handler) {
+            throw new Error(`Called Result.matchErr() on an Error value without a matching arm: ${formatValue(err)}`);
+        }
+        return handler(err);
+    }
+
+    /**
+     * Recovers from the errors carrying the given tag with the Result returned by a callback, similar to orElse.
+     * The handled variant is removed from the error type, other errors and Ok are left unchanged.
+     *
+     * @param tag - The tag of the errors to handle, read from their `_tag` or `kind` property.
+     * @param op - A callback function that receives the matching error and returns an alternative Result.
+     * @returns The alternative Result produced by the callback if the error matches, otherwise the current Result.
+     */
+    catchTag<Tag extends ErrTag<E>, U, F>(tag: Tag, op: (err: Extract<E, TaggedWith<Tag>>) => Result<U, F>): Result<T | U, Exclude<E, TaggedWith<Tag>> | F> {
+        if (this.type === ResultType.Err && errTag(this.contents as E) === tag) {
+            return op(this.contents as E as Extract<E, TaggedWith<Tag>>);
+        }
+        return this as unknown as Result<T, Exclude<E, TaggedWith<Tag>>>;
+    }
+
+    /**
+     * Transforms an Err value by applying the provided function to it.
+     * If the Result is Ok, it is left unchanged.
+     *
+     * @param op - A function that transforms the contained error.
+     * @returns A new Result with the transformed error if Err, or the original Ok.
+     */
+    mapErr<F>(op: (err: E) => F): Result<T, F> {
+        if (this.type === ResultType.Err) {
+            return Result.derivedErr<T, F>(op(this.contents as E));
+        }
+        return this as unknown as Result<T, F>;
+    }
+
+    /**
+     * Calls the provided function with the contained value if the Result is Ok, for side effects such as logging.
+     *
+     * @param op - A function that receives the contained value.
+     * @returns The current Result, unchanged.
+     */
+    inspect(op: (value: T) => void): Result<T, E> {
+        if (this.type === ResultType.Ok) {
+            op(this.contents as T);
+        }
+        return this;
+    }
+
+    /**
+     * Calls the provided function with the contained error if the Result is Err, for side effects such as logging.
+     *
+     * @param op - A function that receives the contained error.
+     * @returns The current Result, unchanged.
+     */
+    inspectErr(op: (err: E) => void): Result<T, E> {
+        if (this.type === ResultType.Err) {
+            op(this.contents as E);
+        }
+        return this;
+    }
+
+    /**
+     * Alias of inspect.
+     *
+     * @param op - A function that receives the contained value.
+     * @returns The current Result, unchanged.
+     */
+    tap(op: (value: T) => void): Result<T, E> {
+        return this.inspect(op);
+    }
+
+    /**
+     * Alias of inspectErr.
+     *
+     * @param op - A function that receives the contained error.
+     * @returns The current Result, unchanged.
+     */
+    tapErr(op: (err: E) => void): Result<T, E> {
+        return this.inspectErr(op);
+    }
+
+    /**
+     * Wraps an Err value in a ContextError with the provided message, keeping the original error as its cause.
+     * If the Result is Ok, it is left unchanged.
+     *
+     * @param msg - A message describing what was being done when the error occurred.
+     * @returns A new Result with the wrapped error if Err, or the original Ok.
+     */
+    context(msg: string): Result<T, ContextError<E>> {
+        return this.mapErr(err => new ContextError(msg, err));
+    }
+
+    /**
+     * Wraps an Err value in a ContextError with a message computed from the error, keeping the original error as its cause.
+     * If the Result is Ok, the callback is not called and the Result is left unchanged.
+     *
+     * @param op - A function that computes the message from the contained error.
+     * @returns A new Result with the wrapped error if Err, or the original Ok.
+     */
+    withContext(op: (err: E) => string): Result<T, ContextError<E>> {
+        return this.mapErr(err => new ContextError(op(err), err));
+    }
+
+    /**
+     * Transposes a Result of an Option into an Option of a Result.
+     *
+     * Ok(None) is mapped to None, Ok(Some(value)) to Some(Ok(value)) and Err(err) to Some(Err(err)).
+     *
+     * @returns The transposed Option.
+     */
+    transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+        if (this.type === ResultType.Err) {
+            return Option.Some<Result<U, E>>(this as unknown as Result<U, E>);
+        }
+        return (this.contents as Option<U>).map(value => Result.Ok<U, E>(value));
+    }
+
+    /**
+     * Checks whether the Result is equal to another one, i.e. both are of the same variant and their contents are equal.
+     *
+     * @param other - The Result to compare with.
+     * @param eqValue - Decides whether the values of two Ok Results are equal. Defaults to structural equality.
+     * @param eqErr - Decides whether the errors of two Err Results are equal. Defaults to structural equality.
+     * @returns True if both Results are equal, otherwise false.
+     */
+    equals(other: Result<T, E>, eqValue: Equality<T> = deepEqual, eqErr: Equality<E> = deepEqual): boolean {
+        if (this.type === ResultType.Ok) {
+            return other.type === ResultType.Ok && eqValue(this.contents as T, other.contents as T);
+        }
+        return other.type === ResultType.Err && eqErr(this.contents as E, other.contents as E);
+    }
+
+    /**
+     * Hashes the Result structurally, so that Results which are equal under the default equality have the same hash,
+     * e.g. to use them as keys of a memoization cache.
+     *
+     * @returns A 32-bit unsigned hash of the variant and its contents.
+     */
+    hash(): number {
+        return deepHash(this.toUnion());
+    }
+
+    /**
+     * Creates a copy of the Result. Cloning an Err does not call the `onErr` hook again.
+     *
+     * @param deep - Whether the contents are cloned too, keeping the prototypes of class instances. Defaults to false.
+     * @returns A new Result of the same variant, containing the same contents, or a deep copy of them.
+     */
+    clone(deep = false): Result<T, E> {
+        return new Result<T, E>(this.type, deep ? deepClone(this.contents) : this.contents);
+    }
+
+    /**
+     * Converts the Result into a Validated, so it can accumulate errors with others instead of stopping at the first Err.
+     *
+     * @returns A valid Validated containing the value if Ok, otherwise an invalid Validated containing the error.
+     */
+    toValidated(): Validated<T, E> {
+        return Validated.fromResult(this);
+    }
+
+    /**
+     * Lifts the Result into an AsyncResult, so it can be chained with asynchronous callbacks.
+     *
+     * @returns An AsyncResult which settles into the current Result.
+     */
+    toAsync(): AsyncResult<T, E> {
+        return AsyncResult.from(this);
+    }
+
+    /**
+     * Returns an iterator over the contained value, which yields it once if the Result is Ok and nothing if it is Err.
+     *
+     * @returns An iterator over the contained value.
+     */
+    *iter(): IterableIterator<T> {
+        if (this.type === ResultType.Ok) {
+            yield this.contents as T;
+        }
+    }
+
+    /**
+     * Iterates over the contained value like iter(), so that the Result can be used with for...of and spread.
+     *
+     * @returns An iterator which yields the value once if Ok, and nothing if Err.
+     */
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.iter();
+    }
+
+    /**
+     * Lets the Result be used with `yield* result.bind()` inside Result.gen.
+     * An Err is yielded to short-circuit the generator, an Ok is unwrapped into its value.
+     *
+     * @returns A generator which yields the Result if Err and returns the contained value if Ok.
+     */
+    *bind(): Generator<Result<never, E>, T, unknown> {
+        if (this.type === ResultType.Err) {
+            yield this as unknown as Result<never, E>;
+            // Result.gen never resumes after an Err, so the generator finishes instead of throwing if it is iterated further
+            return undefined as never;
+        }
+        return this.contents as T;
+    }
+
+    /**
+     * Lets a Result be declared with `using`, disposing the contained value at the end of the scope if it is Ok and has a `Symbol.dispose` method.
+     */
+    [disposeSymbol](): void {
+        const contents = this.contents;
+        if (this.type === ResultType.Ok && isDisposable(contents) && disposeSymbol in contents) {
+            contents[disposeSymbol]();
+        }
+    }
+
+    /**
+     * Lets a Result be declared with `await using`, disposing the contained value at the end of the scope if it is Ok and disposable.
+     *
+     * ```
+     * await using conn = await Result.fromPromise(pool.connect());
+     * ```
+     */
+    async [asyncDisposeSymbol](): Promise<void> {
+        if (this.type === ResultType.Ok && isDisposable(this.contents)) {
+            await dispose(this.contents);
+        }
+    }
+
+    /**
+     * Formats the Result for debugging, like Rust's Debug output, e.g. `Ok(42)` or `Err(NotFound { id: 3 })`.
+     *
+     * @returns A readable representation of the variant and its contents.
+     */
+    toString(): string {
+        return formatValue(this);
+    }
+
+    /**
+     * Lets console.log and util.inspect in Node print the Result like toString does, instead of its internals.
+     *
+     * @returns A readable representation of the variant and its contents.
+     */
+    [inspectSymbol](): string {
+        return formatValue(this);
+    }
+
+    /**
+     * Converts the Result into its stable wire format, which is used by JSON.stringify.
+     *
+     * @returns `{ ok: true, value }` if Ok, otherwise `{ ok: false, error }`.
+     */
+    toJSON(): ResultJSON<T, E> {
+        if (this.type === ResultType.Err) {
+            return { ok: false, error: this.contents as E };
+        }
+        return { ok: true, value: this.contents as T };
+    }
+
+    /**
+     * Converts the Result into a discriminated union of its variants, which can be narrowed with a switch on `type`.
+     *
+     * @returns A new Ok object containing the value if Ok, otherwise a new Err object containing the error.
+     */
+    toUnion(): ResultValue<T, E> {
+        if (this.type === ResultType.Err) {
+            return { type: ResultType.Err, err: this.contents as E };
+        }
+        return { type: ResultType.Ok, value: this.contents as T };
+    }
+}
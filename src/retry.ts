@@ -0,0 +1,210 @@
+import { Result } from "./result";
+import { AsyncResult, Awaitable } from "./asyncResult";
+import { defineError } from "./errors";
+
+/**
+ * Schedules and cancels timers, so that retries and timeouts can be tested without waiting.
+ */
+export interface Clock {
+    setTimeout(callback: () => void, ms: number): unknown,
+    clearTimeout(handle: unknown): void
+}
+
+/**
+ * The Clock backed by the global setTimeout and clearTimeout.
+ */
+export const systemClock: Clock = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Returned by Result.timeout when the Result does not settle in time.
+ */
+export class TimeoutError extends defineError("TimeoutError")<{ ms: number }> {}
+
+/**
+ * Returned by Result.retry and Result.timeout when their AbortSignal is aborted. The abort reason is kept as `cause`.
+ */
+export class AbortError extends defineError("AbortError") {}
+
+/**
+ * Returned by Result.retry when the operation failed on its last allowed attempt, or with an error that should not be retried.
+ * The error of every attempt is kept in order, and the last one is also kept as `cause`.
+ */
+export class RetryError<E> extends defineError("RetryError")<{ errors: E[] }> {}
+
+/**
+ * Computes the delay before the given retry, from the delay of the first retry.
+ */
+export type Backoff = "constant" | "linear" | "exponential" | ((attempt: number, delay: number) => number);
+
+/**
+ * Options for Result.retry.
+ */
+export interface RetryOptions<E> {
+    /**
+     * The maximum number of attempts, including the first one. Defaults to 3.
+     */
+    attempts?: number,
+    /**
+     * The delay before the first retry in milliseconds. Defaults to 100.
+     */
+    delay?: number,
+    /**
+     * How the delay grows between retries. Defaults to "exponential".
+     */
+    backoff?: Backoff,
+    /**
+     * The upper bound of any delay in milliseconds. Defaults to no bound.
+     */
+    maxDelay?: number,
+    /**
+     * Whether each delay is randomized between 0 and its computed value. Defaults to false.
+     */
+    jitter?: boolean,
+    /**
+     * Decides whether an error should be retried. Defaults to retrying every error.
+     */
+    shouldRetry?: (err: E, attempt: number) => boolean,
+    /**
+     * Aborts any pending delay and prevents further attempts.
+     */
+    signal?: AbortSignal,
+    /**
+     * The Clock used to wait between attempts. Defaults to the system clock.
+     */
+    clock?: Clock,
+    /**
+     * The source of randomness used for jitter, returning values in [0, 1). Defaults to Math.random.
+     */
+    random?: () => number
+}
+
+/**
+ * Options for Result.timeout.
+ */
+export interface TimeoutOptions {
+    /**
+     * The Clock used to schedule the timeout. Defaults to the system clock.
+     */
+    clock?: Clock,
+    /**
+     * Settles the Result early with an AbortError when aborted.
+     */
+    signal?: AbortSignal
+}
+
+function abortError(signal: AbortSignal): AbortError {
+    return new AbortError(undefined, { message: "The operation was aborted", cause: signal.reason });
+}
+
+function computeDelay<E>(attempt: number, options: RetryOptions<E>): number {
+    const { delay = 100, backoff = "exponential", maxDelay = Infinity, jitter = false, random = Math.random } = options;
+    let computed: number;
+    if (backoff === "constant") {
+        computed = delay;
+    } else if (backoff === "linear") {
+        computed = delay * attempt;
+    } else if (backoff === "exponential") {
+        computed = delay * 2 ** (attempt - 1);
+    } else {
+        computed = backoff(attempt, delay);
+    }
+    computed = Math.min(computed, maxDelay);
+    return jitter ? Math.floor(computed * random()) : computed;
+}
+
+/**
+ * Waits for the given delay, resolving to false once it elapsed or to true as soon as the signal aborts.
+ */
+function wait(ms: number, clock: Clock, signal?: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve(true);
+            return;
+        }
+        const onAbort = () => {
+            clock.clearTimeout(handle);
+            resolve(true);
+        };
+        const handle = clock.setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(false);
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Calls an operation until it returns Ok, waiting between attempts according to the backoff policy.
+ *
+ * @param op - The operation, which receives the number of the attempt, starting at 1, and the AbortSignal if any.
+ * @param options - The retry policy.
+ * @returns An AsyncResult of the first Ok, of a RetryError with every error, or of an AbortError.
+ */
+export function retry<T, E>(op: (attempt: number, signal?: AbortSignal) => Awaitable<Result<T, E>>, options: RetryOptions<E> = {}): AsyncResult<T, RetryError<E> | AbortError> {
+    const { attempts = 3, shouldRetry = () => true, signal, clock = systemClock } = options;
+    return AsyncResult.from((async (): Promise<Result<T, RetryError<E> | AbortError>> => {
+        const errors: E[] = [];
+        for (let attempt = 1; ; attempt++) {
+            if (signal?.aborted) {
+                return Result.Err(abortError(signal));
+            }
+            const result = await op(attempt, signal);
+            if (!result.isErr()) {
+                return result as unknown as Result<T, RetryError<E>>;
+            }
+            errors.push(result.error);
+            if (attempt >= attempts || !shouldRetry(result.error, attempt)) {
+                return Result.derivedErr(new RetryError<E>({ errors }, { message: `Failed after ${attempt} attempt(s)`, cause: result.error }));
+            }
+            if (await wait(computeDelay(attempt, options), clock, signal)) {
+                return Result.Err(abortError(signal as AbortSignal));
+            }
+        }
+    })());
+}
+
+/**
+ * Settles into a TimeoutError if the Result does not settle within the given time.
+ *
+ * @param result - The Result, AsyncResult or promise of a Result to wait for.
+ * @param ms - The time limit in milliseconds.
+ * @param options - The Clock to use, and an AbortSignal which settles the Result early.
+ * @returns An AsyncResult of the Result if it settled in time, otherwise of a TimeoutError.
+ */
+export function timeout<T, E>(result: Awaitable<Result<T, E>>, ms: number, options?: TimeoutOptions & { signal?: undefined }): AsyncResult<T, E | TimeoutError>;
+export function timeout<T, E>(result: Awaitable<Result<T, E>>, ms: number, options: TimeoutOptions): AsyncResult<T, E | TimeoutError | AbortError>;
+export function timeout<T, E>(result: Awaitable<Result<T, E>>, ms: number, options: TimeoutOptions = {}): AsyncResult<T, E | TimeoutError | AbortError> {
+    const { clock = systemClock, signal } = options;
+    return AsyncResult.from(new Promise<Result<T, E | TimeoutError | AbortError>>((resolve, reject) => {
+        if (signal?.aborted) {
+            resolve(Result.Err(abortError(signal)));
+            return;
+        }
+        const onAbort = () => {
+            clock.clearTimeout(handle);
+            resolve(Result.Err(abortError(signal as AbortSignal)));
+        };
+        const settle = () => {
+            clock.clearTimeout(handle);
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const handle = clock.setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(Result.Err(new TimeoutError({ ms }, { message: `Timed out after ${ms}ms` })));
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        Promise.resolve(result).then(
+            settled => {
+                settle();
+                resolve(settled);
+            },
+            error => {
+                settle();
+                reject(error);
+            }
+        );
+    }));
+}
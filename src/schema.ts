@@ -0,0 +1,228 @@
+import { Result } from "./result";
+
+/**
+ * Describes why a value, or one of its fields, failed validation.
+ */
+export interface ValidationError {
+    /**
+     * The keys and indices leading from the validated value to the invalid field, empty for the value itself.
+     */
+    path: (string | number)[],
+    message: string
+}
+
+/**
+ * Extracts the type of the values accepted by a Schema.
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Keys of an object shape whose schema accepts undefined.
+ */
+type OptionalKeys<S> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+/**
+ * The type of the values accepted by an object schema, where fields accepting undefined are optional.
+ */
+type ObjectOutput<S> = {
+    [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>
+} & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+type Check<T> = (value: unknown, path: (string | number)[]) => Result<T, ValidationError[]>;
+
+function invalid<T>(path: (string | number)[], message: string): Result<T, ValidationError[]> {
+    return Result.derivedErr([{ path, message }]);
+}
+
+/**
+ * Validates unknown values into a typed Result, accumulating every field error instead of stopping at the first one.
+ */
+export class Schema<T> {
+    private check: Check<T>;
+
+    private constructor(check: Check<T>) {
+        this.check = check;
+    }
+
+    /**
+     * Creates a Schema from a type guard.
+     *
+     * @param guard - A type guard for the accepted values.
+     * @param message - The error message used when the guard fails.
+     * @returns A Schema accepting the values which pass the guard.
+     */
+    static fromGuard<T>(guard: (value: unknown) => value is T, message: string): Schema<T> {
+        return new Schema<T>((value, path) => guard(value) ? Result.Ok(value) : invalid(path, message));
+    }
+
+    /**
+     * Creates a Schema accepting strings.
+     *
+     * @param message - The error message used for non-string values.
+     * @returns A Schema accepting strings.
+     */
+    static string(message = "Expected a string"): Schema<string> {
+        return Schema.fromGuard((value): value is string => typeof value === "string", message);
+    }
+
+    /**
+     * Creates a Schema accepting numbers, except NaN.
+     *
+     * @param message - The error message used for non-number values.
+     * @returns A Schema accepting numbers.
+     */
+    static number(message = "Expected a number"): Schema<number> {
+        return Schema.fromGuard((value): value is number => typeof value === "number" && !Number.isNaN(value), message);
+    }
+
+    /**
+     * Creates a Schema accepting booleans.
+     *
+     * @param message - The error message used for non-boolean values.
+     * @returns A Schema accepting booleans.
+     */
+    static boolean(message = "Expected a boolean"): Schema<boolean> {
+        return Schema.fromGuard((value): value is boolean => typeof value === "boolean", message);
+    }
+
+    /**
+     * Creates a Schema accepting exactly the provided value.
+     *
+     * @param expected - The only accepted value.
+     * @param message - The error message used for any other value.
+     * @returns A Schema accepting the provided value.
+     */
+    static literal<L extends string | number | boolean | null>(expected: L, message = `Expected ${JSON.stringify(expected)}`): Schema<L> {
+        return Schema.fromGuard((value): value is L => value === expected, message);
+    }
+
+    /**
+     * Creates a Schema accepting objects whose fields are accepted by the schemas of the provided shape.
+     * Every invalid field is reported with its path, and fields which are not part of the shape are dropped.
+     *
+     * @param shape - The schema of every field.
+     * @param message - The error message used for non-object values.
+     * @returns A Schema accepting objects of the provided shape.
+     */
+    static object<S extends Record<string, Schema<unknown>>>(shape: S, message = "Expected an object"): Schema<ObjectOutput<S>> {
+        return new Schema<ObjectOutput<S>>((value, path) => {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                return invalid(path, message);
+            }
+            const output: Record<string, unknown> = {};
+            const errors: ValidationError[] = [];
+            for (const key of Object.keys(shape)) {
+                const field = (value as Record<string, unknown>)[key];
+                const result = shape[key].check(field, [...path, key]);
+                if (result.isErr()) {
+                    errors.push(...result.error);
+                } else if (field !== undefined || key in value) {
+                    output[key] = result.unwrapUnchecked();
+                }
+            }
+            return errors.length > 0 ? Result.derivedErr(errors) : Result.Ok(output as ObjectOutput<S>);
+        });
+    }
+
+    /**
+     * Creates a Schema accepting arrays whose items are all accepted by the provided schema.
+     * Every invalid item is reported with its index.
+     *
+     * @param item - The schema of every item.
+     * @param message - The error message used for non-array values.
+     * @returns A Schema accepting arrays of the provided item.
+     */
+    static array<I>(item: Schema<I>, message = "Expected an array"): Schema<I[]> {
+        return new Schema<I[]>((value, path) => {
+            if (!Array.isArray(value)) {
+                return invalid(path, message);
+            }
+            const output: I[] = [];
+            const errors: ValidationError[] = [];
+            value.forEach((element, index) => {
+                const result = item.check(element, [...path, index]);
+                if (result.isErr()) {
+                    errors.push(...result.error);
+                } else {
+                    output.push(result.unwrapUnchecked());
+                }
+            });
+            return errors.length > 0 ? Result.derivedErr(errors) : Result.Ok(output);
+        });
+    }
+
+    /**
+     * Creates a Schema accepting values accepted by any of the provided schemas, which are tried in order.
+     *
+     * @param schemas - The schemas of every variant.
+     * @returns A Schema accepting any of the variants.
+     */
+    static union<S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> {
+        return new Schema<Infer<S[number]>>((value, path) => {
+            for (const schema of schemas) {
+                const result = schema.check(value, path);
+                if (result.isOk()) {
+                    return result as Result<Infer<S[number]>, ValidationError[]>;
+                }
+            }
+            return invalid(path, "Expected a value matching one of the union variants");
+        });
+    }
+
+    /**
+     * Creates a Schema which also accepts undefined.
+     *
+     * @param schema - The schema of defined values.
+     * @returns A Schema accepting undefined or values accepted by the provided schema.
+     */
+    static optional<T>(schema: Schema<T>): Schema<T | undefined> {
+        return new Schema<T | undefined>((value, path) => value === undefined ? Result.Ok(undefined) : schema.check(value, path));
+    }
+
+    /**
+     * Validates a value against the Schema.
+     *
+     * @param value - The value to validate.
+     * @returns Ok containing the validated value, or Err containing every validation error.
+     */
+    parse(value: unknown): Result<T, ValidationError[]> {
+        // The checks build their Errs without reporting them, as unions discard some of them, so the final Err is reported here
+        const result = this.check(value, []);
+        return result.isErr() ? Result.Err(result.error) : result;
+    }
+
+    /**
+     * Creates a Schema which also accepts undefined.
+     *
+     * @returns A Schema accepting undefined or values accepted by the current Schema.
+     */
+    optional(): Schema<T | undefined> {
+        return Schema.optional(this);
+    }
+
+    /**
+     * Creates a Schema which additionally checks accepted values against a predicate.
+     * The predicate only runs on values which the current Schema accepts.
+     *
+     * @param predicate - A function to test accepted values.
+     * @param message - The error message used when the predicate fails.
+     * @returns A Schema accepting the values which pass both the current Schema and the predicate.
+     */
+    refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+        return new Schema<T>((value, path) =>
+            this.check(value, path).andThen(checked => predicate(checked) ? Result.Ok(checked) : invalid<T>(path, message))
+        );
+    }
+
+    /**
+     * Creates a Schema which transforms accepted values.
+     *
+     * @param op - A function that transforms accepted values.
+     * @returns A Schema accepting the same values, which produces the transformed values.
+     */
+    map<U>(op: (value: T) => U): Schema<U> {
+        return new Schema<U>((value, path) => this.check(value, path).map(op));
+    }
+}
@@ -0,0 +1,192 @@
+import { Result } from "./result";
+import { AsyncResult } from "./asyncResult";
+import { defineError } from "./errors";
+import { AbortError } from "./retry";
+
+/**
+ * Returned by safeJsonParse when the text is not valid JSON. The SyntaxError thrown by JSON.parse is kept as `cause`.
+ */
+export class JsonSyntaxError extends defineError("JsonSyntaxError") {}
+
+/**
+ * Returned by safeUrl when the input is not a valid URL.
+ */
+export class InvalidUrl extends defineError("InvalidUrl")<{ input: string, base?: string }> {}
+
+/**
+ * Returned by safeBigInt when the value cannot be converted to a BigInt.
+ */
+export class InvalidBigInt extends defineError("InvalidBigInt")<{ input: unknown }> {}
+
+/**
+ * Returned by safeDecodeURIComponent when the input contains a malformed escape sequence.
+ */
+export class MalformedUri extends defineError("MalformedUri")<{ input: string }> {}
+
+/**
+ * Returned by safeStructuredClone when the value contains something which cannot be cloned, e.g. a function.
+ */
+export class DataCloneError extends defineError("DataCloneError") {}
+
+/**
+ * Returned by safeReadFile when the file does not exist.
+ */
+export class FileNotFound extends defineError("FileNotFound")<{ path: string }> {}
+
+/**
+ * Returned by safeReadFile when the process is not allowed to read the file.
+ */
+export class PermissionDenied extends defineError("PermissionDenied")<{ path: string }> {}
+
+/**
+ * Returned by safeReadFile when the path is a directory.
+ */
+export class IsADirectory extends defineError("IsADirectory")<{ path: string }> {}
+
+/**
+ * Returned by safeReadFile for any other failure, with the error code reported by the system, e.g. "EMFILE".
+ */
+export class IoError extends defineError("IoError")<{ path: string, code?: string }> {}
+
+/**
+ * Returned by safeFetch when the request could not be sent or the response could not be received.
+ */
+export class NetworkError extends defineError("NetworkError")<{ url: string }> {}
+
+/**
+ * Returned by safeFetch when the response has a status outside of the 200-299 range. The response is kept, so its body can still be read.
+ */
+export class HttpError extends defineError("HttpError")<{ url: string, status: number, response: Response }> {}
+
+/**
+ * Errors returned by safeReadFile.
+ */
+export type ReadFileError = FileNotFound | PermissionDenied | IsADirectory | IoError;
+
+function messageOf(error: unknown): string | undefined {
+    return error instanceof Error || (typeof error === "object" && error !== null && "message" in error)
+        ? String((error as { message: unknown }).message)
+        : undefined;
+}
+
+/**
+ * Parses a JSON string, like JSON.parse.
+ *
+ * @param text - The JSON string to parse.
+ * @param reviver - A function that transforms the parsed values, as accepted by JSON.parse.
+ * @returns Ok containing the parsed value, or Err containing a JsonSyntaxError.
+ */
+export function safeJsonParse(text: string, reviver?: (this: unknown, key: string, value: unknown) => unknown): Result<unknown, JsonSyntaxError> {
+    return Result.try(
+        () => JSON.parse(text, reviver) as unknown,
+        error => new JsonSyntaxError(undefined, { message: messageOf(error), cause: error })
+    );
+}
+
+/**
+ * Parses a URL, like `new URL(input, base)`.
+ *
+ * @param input - The absolute URL, or a relative one if a base is provided.
+ * @param base - The URL against which a relative input is resolved.
+ * @returns Ok containing the URL, or Err containing an InvalidUrl.
+ */
+export function safeUrl(input: string, base?: string | URL): Result<URL, InvalidUrl> {
+    return Result.try(
+        () => new URL(input, base),
+        error => new InvalidUrl({ input, base: base?.toString() }, { message: `Invalid URL: ${input}`, cause: error })
+    );
+}
+
+/**
+ * Converts a value to a BigInt, like `BigInt(value)`.
+ *
+ * @param value - An integer, or a string or boolean which represents one.
+ * @returns Ok containing the BigInt, or Err containing an InvalidBigInt.
+ */
+export function safeBigInt(value: string | number | bigint | boolean): Result<bigint, InvalidBigInt> {
+    return Result.try(
+        () => BigInt(value),
+        error => new InvalidBigInt({ input: value }, { message: messageOf(error), cause: error })
+    );
+}
+
+/**
+ * Decodes a URI component, like decodeURIComponent.
+ *
+ * @param input - The encoded URI component.
+ * @returns Ok containing the decoded string, or Err containing a MalformedUri.
+ */
+export function safeDecodeURIComponent(input: string): Result<string, MalformedUri> {
+    return Result.try(
+        () => decodeURIComponent(input),
+        error => new MalformedUri({ input }, { message: messageOf(error), cause: error })
+    );
+}
+
+/**
+ * Deeply clones a value with the structured clone algorithm, like structuredClone.
+ *
+ * @param value - The value to clone.
+ * @returns Ok containing the clone, or Err containing a DataCloneError.
+ */
+export function safeStructuredClone<T>(value: T): Result<T, DataCloneError> {
+    return Result.try(
+        () => structuredClone(value),
+        error => new DataCloneError(undefined, { message: messageOf(error), cause: error })
+    );
+}
+
+function readFileError(path: string, error: unknown): ReadFileError {
+    const code = typeof error === "object" && error !== null ? (error as { code?: unknown }).code : undefined;
+    const options = { message: messageOf(error), cause: error };
+    switch (code) {
+        case "ENOENT":
+            return new FileNotFound({ path }, options);
+        case "EACCES":
+        case "EPERM":
+            return new PermissionDenied({ path }, options);
+        case "EISDIR":
+            return new IsADirectory({ path }, options);
+        default:
+            return new IoError({ path, code: typeof code === "string" ? code : undefined }, options);
+    }
+}
+
+/**
+ * Reads a file with fs.promises.readFile. Only available in Node and compatible runtimes, where "fs" is loaded when first called.
+ *
+ * @param path - The path of the file.
+ * @param encoding - The encoding of the file. Without it, the raw contents are returned as a Buffer.
+ * @returns An AsyncResult of Ok containing the contents, or of Err containing the reason the file could not be read.
+ */
+export function safeReadFile(path: string, encoding: BufferEncoding): AsyncResult<string, ReadFileError>;
+export function safeReadFile(path: string): AsyncResult<Buffer, ReadFileError>;
+export function safeReadFile(path: string, encoding?: BufferEncoding): AsyncResult<string | Buffer, ReadFileError> {
+    return Result.fromPromise(
+        import("fs").then(fs => fs.promises.readFile(path, encoding ? { encoding } : {})),
+        error => readFileError(path, error)
+    );
+}
+
+/**
+ * Sends a request with fetch, treating responses with a status outside of the 200-299 range as errors.
+ *
+ * @param input - The URL of the request, or the Request itself.
+ * @param init - The options of the request, as accepted by fetch. Its signal and the signal of a Request can both abort the request.
+ * @returns An AsyncResult of Ok containing the response, or of Err containing an HttpError, a NetworkError,
+ * or an AbortError if the request was aborted with either signal.
+ */
+export function safeFetch(input: string | URL | Request, init?: RequestInit): AsyncResult<Response, HttpError | NetworkError | AbortError> {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    // fetch replaces the signal of a Request with the one of init, so both are combined to honor either of them
+    const signals = [typeof input === "string" || input instanceof URL ? undefined : input.signal, init?.signal ?? undefined]
+        .filter((signal): signal is AbortSignal => signal !== undefined);
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+    return Result.fromPromise<Response, HttpError | NetworkError | AbortError>(fetch(input, signal ? { ...init, signal } : init), error =>
+        signal?.aborted
+            ? new AbortError(undefined, { message: "The request was aborted", cause: signal.reason })
+            : new NetworkError({ url }, { message: messageOf(error), cause: error })
+    ).andThen(response => response.ok
+        ? Result.Ok(response)
+        : Result.Err(new HttpError({ url, status: response.status, response }, { message: `Request to ${url} failed with status ${response.status}` })));
+}
@@ -0,0 +1,178 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { AsyncResult, Result } from "../index";
+
+describe("AsyncResult", () => {
+    const okValue = 42;
+    const newValue = 100;
+    const errorObj = new Error("Test error");
+
+    const okAsync = () => AsyncResult.Ok<number, Error>(okValue);
+    const errAsync = () => AsyncResult.Err<number, Error>(errorObj);
+
+    describe("from", () => {
+        test("should await into the wrapped Result", async () => {
+            const result = Result.Ok<number, Error>(okValue);
+            expect(await AsyncResult.from(result)).toBe(result);
+        });
+
+        test("should accept a promise of a Result", async () => {
+            const res = await AsyncResult.from(Promise.resolve(Result.Err<number, Error>(errorObj)));
+            expect(res.unwrapErr()).toBe(errorObj);
+        });
+
+        test("should be created from Result.toAsync", async () => {
+            expect((await Result.Ok<number, Error>(okValue).toAsync()).unwrap()).toBe(okValue);
+        });
+    });
+
+    describe("unwrap / unwrapErr", () => {
+        test("should resolve the contained value", async () => {
+            await expect(okAsync().unwrap()).resolves.toBe(okValue);
+            await expect(errAsync().unwrapErr()).resolves.toBe(errorObj);
+        });
+
+        test("should reject on the wrong variant", async () => {
+            await expect(errAsync().unwrap()).rejects.toThrow("Called Result.unwrap() on an Error value");
+            await expect(okAsync().unwrapErr()).rejects.toThrow("Called Result.unwrapErr() on an Ok value: 42");
+        });
+    });
+
+    describe("unwrapOr / unwrapOrElse", () => {
+        test("should resolve the contained value for Ok", async () => {
+            const op = jest.fn(async () => newValue);
+            await expect(okAsync().unwrapOr(newValue)).resolves.toBe(okValue);
+            await expect(okAsync().unwrapOrElse(op)).resolves.toBe(okValue);
+            expect(op).not.toHaveBeenCalled();
+        });
+
+        test("should resolve the fallback for Err", async () => {
+            await expect(errAsync().unwrapOr(newValue)).resolves.toBe(newValue);
+            await expect(errAsync().unwrapOrElse(async () => newValue)).resolves.toBe(newValue);
+        });
+    });
+
+    describe("expect / expectErr", () => {
+        test("should reject with the custom message", async () => {
+            await expect(errAsync().expect("boom")).rejects.toThrow('boom: Error("Test error")');
+            await expect(okAsync().expectErr("boom")).rejects.toThrow(`boom: ${okValue}`);
+        });
+    });
+
+    describe("ok / err / okOption / errOption", () => {
+        test("should resolve the contained values", async () => {
+            await expect(okAsync().ok()).resolves.toBe(okValue);
+            await expect(okAsync().err()).resolves.toBeNull();
+            expect((await errAsync().okOption()).isNone()).toBe(true);
+            expect((await errAsync().errOption()).unwrap()).toBe(errorObj);
+        });
+    });
+
+    describe("isOk / isErr / isOkAnd / isErrAnd", () => {
+        test("should resolve the variant checks", async () => {
+            await expect(okAsync().isOk()).resolves.toBe(true);
+            await expect(okAsync().isErr()).resolves.toBe(false);
+            await expect(okAsync().isOkAnd(async x => x === okValue)).resolves.toBe(true);
+            await expect(errAsync().isOkAnd(() => true)).resolves.toBe(false);
+            await expect(errAsync().isErrAnd(async e => e === errorObj)).resolves.toBe(true);
+            await expect(okAsync().isErrAnd(() => true)).resolves.toBe(false);
+        });
+    });
+
+    describe("map", () => {
+        test("should apply an async transform when Ok", async () => {
+            const res = await okAsync().map(async x => x + 1);
+            expect(res.unwrap()).toBe(okValue + 1);
+        });
+
+        test("should not call the transform when Err", async () => {
+            const op = jest.fn((x: number) => x + 1);
+            const res = await errAsync().map(op);
+            expect(res.unwrapErr()).toBe(errorObj);
+            expect(op).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("mapErr", () => {
+        test("should apply an async transform when Err", async () => {
+            const res = await errAsync().mapErr(async err => err.message);
+            expect(res.unwrapErr()).toBe(errorObj.message);
+        });
+
+        test("should preserve Ok", async () => {
+            const res = await okAsync().mapErr(err => err.message);
+            expect(res.unwrap()).toBe(okValue);
+        });
+    });
+
+    describe("mapOr / mapOrElse", () => {
+        test("should apply the transform or the default", async () => {
+            await expect(okAsync().mapOr(0, async x => x * 2)).resolves.toBe(okValue * 2);
+            await expect(errAsync().mapOr(0, x => x * 2)).resolves.toBe(0);
+            await expect(errAsync().mapOrElse(async e => e.message, String)).resolves.toBe(errorObj.message);
+        });
+    });
+
+    describe("andThen", () => {
+        test("should chain Results, AsyncResults and promises of Results", async () => {
+            const res = await okAsync()
+                .andThen(x => Result.Ok<number, Error>(x + 1))
+                .andThen(x => AsyncResult.Ok<number, Error>(x + 1))
+                .andThen(async x => Result.Ok<number, Error>(x + 1));
+            expect(res.unwrap()).toBe(okValue + 3);
+        });
+
+        test("should short-circuit on Err", async () => {
+            const op = jest.fn(async (x: number) => Result.Ok<number, Error>(x));
+            const res = await errAsync().andThen(op);
+            expect(res.unwrapErr()).toBe(errorObj);
+            expect(op).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("and / or / orElse", () => {
+        const alternative = Result.Ok<number, Error>(newValue);
+
+        test("should pick the right Result", async () => {
+            expect((await okAsync().and(alternative)).unwrap()).toBe(newValue);
+            expect((await errAsync().and(alternative)).unwrapErr()).toBe(errorObj);
+            expect((await okAsync().or(alternative)).unwrap()).toBe(okValue);
+            expect((await errAsync().or(Promise.resolve(alternative))).unwrap()).toBe(newValue);
+        });
+
+        test("should recover from Err with an async callback", async () => {
+            const res = await errAsync().orElse(async () => alternative);
+            expect(res).toBe(alternative);
+        });
+    });
+
+    describe("match / matchErr", () => {
+        test("should resolve the value of the matching arm", async () => {
+            await expect(okAsync().match({ Ok: async x => x + 1, Err: () => 0 })).resolves.toBe(okValue + 1);
+            await expect(errAsync().match({ Ok: x => x + 1, Err: async () => 0 })).resolves.toBe(0);
+        });
+
+        test("should dispatch on the error tag", async () => {
+            const res = AsyncResult.Err<number, { kind: "NotFound" } | { kind: "Timeout" }>({ kind: "Timeout" });
+            await expect(res.matchErr({ Ok: () => "ok", NotFound: () => "missing", Timeout: async () => "timeout" })).resolves.toBe("timeout");
+        });
+    });
+
+    describe("inspect / inspectErr / tap / tapErr", () => {
+        test("should await async side effects before settling", async () => {
+            const seen: string[] = [];
+            const res = await okAsync()
+                .inspect(async value => { seen.push(`value ${value}`); })
+                .tapErr(() => { seen.push("error"); })
+                .tap(() => { seen.push("tap"); });
+            expect(res.unwrap()).toBe(okValue);
+            expect(seen).toEqual([`value ${okValue}`, "tap"]);
+        });
+
+        test("should call the error callbacks for Err", async () => {
+            const onErr = jest.fn(async () => undefined);
+            const res = await errAsync().inspectErr(onErr).tapErr(onErr).inspect(() => { throw new Error("not called"); });
+            expect(res.unwrapErr()).toBe(errorObj);
+            expect(onErr).toHaveBeenCalledTimes(2);
+        });
+    });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, test } from "@jest/globals";
+import { Option, Result, ResultMatchers, defineError, resultEqualityTester, resultMatchers } from "../index";
+
+declare module "expect" {
+    // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+    interface Matchers<R> extends ResultMatchers<R> {}
+}
+
+expect.extend(resultMatchers);
+expect.addEqualityTesters([resultEqualityTester]);
+
+class NotFound extends defineError("NotFound")<{ id: number }> {}
+
+describe("equals", () => {
+    test("should compare variants and contents structurally", () => {
+        expect(Result.Ok(42).equals(Result.Ok(42))).toBe(true);
+        expect(Result.Ok<number, number>(42).equals(Result.Err(42))).toBe(false);
+        expect(Result.Ok({ a: [1, new Date(0)] }).equals(Result.Ok({ a: [1, new Date(0)] }))).toBe(true);
+        expect(Result.Ok({ a: [1, 2] }).equals(Result.Ok({ a: [1, 3] }))).toBe(false);
+        expect(Result.Err(new NotFound({ id: 3 })).equals(Result.Err(new NotFound({ id: 3 })))).toBe(true);
+        expect(Result.Err(new NotFound({ id: 3 })).equals(Result.Err(new NotFound({ id: 4 })))).toBe(false);
+        expect(Result.Ok(Result.Ok(Option.Some(1))).equals(Result.Ok(Result.Ok(Option.Some(1))))).toBe(true);
+        expect(Result.Ok(new Map([[1, "a"]])).equals(Result.Ok(new Map([[1, "b"]])))).toBe(false);
+    });
+
+    test("should handle cyclic values", () => {
+        const a: { self?: unknown } = {};
+        a.self = a;
+        const b: { self?: unknown } = {};
+        b.self = b;
+        expect(Result.Ok(a).equals(Result.Ok(b))).toBe(true);
+    });
+
+    test("should use the provided equalities", () => {
+        const caseInsensitive = (x: string, y: string) => x.toLowerCase() === y.toLowerCase();
+        expect(Result.Ok<string, string>("A").equals(Result.Ok("a"), caseInsensitive)).toBe(true);
+        expect(Result.Err<string, string>("A").equals(Result.Err("a"), caseInsensitive)).toBe(false);
+        expect(Result.Err<string, string>("A").equals(Result.Err("a"), caseInsensitive, caseInsensitive)).toBe(true);
+    });
+});
+
+describe("hash", () => {
+    test("should be equal for equal Results", () => {
+        expect(Result.Ok({ a: 1, b: [2] }).hash()).toBe(Result.Ok({ b: [2], a: 1 }).hash());
+        expect(Result.Ok(new Set([1, 2])).hash()).toBe(Result.Ok(new Set([2, 1])).hash());
+        expect(Result.Err(new NotFound({ id: 3 })).hash()).toBe(Result.Err(new NotFound({ id: 3 })).hash());
+    });
+
+    test("should differ between variants and contents", () => {
+        expect(Result.Ok(1).hash()).not.toBe(Result.Err(1).hash());
+        expect(Result.Ok(1).hash()).not.toBe(Result.Ok(2).hash());
+        expect(Result.Ok("1").hash()).not.toBe(Result.Ok(1).hash());
+    });
+});
+
+describe("compare", () => {
+    test("should order Ok before Err, then by contents", () => {
+        const results = [Result.Err<number, number>(1), Result.Ok<number, number>(3), Result.Err<number, number>(0), Result.Ok<number, number>(2)];
+        const sorted = [...results].sort(Result.compare).map(result => result.toJSON());
+        expect(sorted).toEqual([
+            { ok: true, value: 2 },
+            { ok: true, value: 3 },
+            { ok: false, error: 0 },
+            { ok: false, error: 1 },
+        ]);
+    });
+
+    test("should compare arrays lexicographically and nested Results", () => {
+        expect(Result.compare(Result.Ok([1, 2]), Result.Ok([1, 3]))).toBeLessThan(0);
+        expect(Result.compare(Result.Ok([1, 2]), Result.Ok([1]))).toBeGreaterThan(0);
+        expect(Result.compare(Result.Ok(Result.Err(0)), Result.Ok(Result.Ok(9)))).toBeGreaterThan(0);
+        expect(Result.compare(Result.Ok("a"), Result.Ok("a"))).toBe(0);
+    });
+
+    test("should use the provided comparators", () => {
+        const byLength = (a: string, b: string) => a.length - b.length;
+        expect(Result.compare(Result.Ok("bb"), Result.Ok("a"), byLength)).toBeGreaterThan(0);
+        expect(Result.compare(Result.Err<string, string>("bb"), Result.Err("a"), byLength, byLength)).toBeGreaterThan(0);
+    });
+});
+
+describe("clone", () => {
+    test("should create a shallow copy by default", () => {
+        const value = { items: [1] };
+        const original = Result.Ok(value);
+        const clone = original.clone();
+        expect(clone).not.toBe(original);
+        expect(clone.unwrap()).toBe(value);
+    });
+
+    test("should create a deep copy which keeps prototypes", () => {
+        const err = new NotFound({ id: 3 });
+        const clone = Result.Err<number, NotFound>(err).clone(true);
+        const cloned = clone.unwrapErr();
+        expect(cloned).not.toBe(err);
+        expect(cloned).toBeInstanceOf(NotFound);
+        expect(cloned._tag).toBe("NotFound");
+        expect(cloned.id).toBe(3);
+        expect(cloned.message).toBe(err.message);
+
+        const value = { nested: Result.Ok(new Map([[1, [2]]])) };
+        const deep = Result.Ok(value).clone(true).unwrap();
+        expect(deep.nested.unwrap()).not.toBe(value.nested.unwrap());
+        expect(deep.nested.unwrap().get(1)).toEqual([2]);
+    });
+});
+
+describe("matchers", () => {
+    test("should check the variant and contents", () => {
+        expect(Result.Ok(42)).toBeOk();
+        expect(Result.Ok({ id: 1, name: "a" })).toBeOk({ id: 1, name: "a" });
+        expect(Result.Ok({ id: 1, name: "a" })).toBeOk(expect.objectContaining({ id: 1 }));
+        expect(Result.Err("boom")).toBeErr();
+        expect(Result.Err(new NotFound({ id: 3 }))).toBeErrWith(new NotFound({ id: 3 }));
+        expect(Result.Ok(42)).toBeOkMatching(value => value === 42);
+        expect(Result.Ok(42)).not.toBeErr();
+        expect(Result.Err(42)).not.toBeOk();
+        expect(42).not.toBeOk();
+    });
+
+    test("should print the received variant and a diff", () => {
+        expect(() => expect(Result.Err("boom")).toBeOk(1)).toThrow(/Expected: Ok Result containing 1\nReceived: Err\("boom"\)/);
+        expect(() => expect(Result.Ok({ id: 1 })).toBeOk({ id: 2 })).toThrow(/- +"id": 2,\n\+ +"id": 1/);
+        expect(() => expect(Result.Ok(1)).toBeOkMatching(value => value === 2)).toThrow(/whose value satisfies the predicate\nReceived: Ok\(1\)/);
+    });
+
+    test("should make toEqual compare Results by contents", () => {
+        expect({ user: Result.Ok(1) }).toEqual({ user: Result.Ok(1) });
+        expect({ user: Result.Err(new NotFound({ id: 1 })) }).toEqual({ user: Result.Err(new NotFound({ id: 1 })) });
+        expect({ user: Result.Err("a") }).not.toEqual({ user: Result.Err("b") });
+        expect(Result.Ok(1)).not.toEqual(Result.Err(1));
+    });
+});
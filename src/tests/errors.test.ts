@@ -0,0 +1,175 @@
+import { describe, expect, test } from "@jest/globals";
+import { AsyncResult, ContextError, Option, Result, TaggedError, UnwrapError, defineError, errorChain, formatErrorChain } from "../index";
+
+describe("errors", () => {
+    const errorObj = new Error("ENOENT: no such file or directory");
+
+    describe("UnwrapError", () => {
+        test("should be thrown by unwrap with the error as cause", () => {
+            const err = (() => {
+                try {
+                    return Result.Err<number, Error>(errorObj).unwrap();
+                } catch (error) {
+                    return error;
+                }
+            })() as UnwrapError;
+            expect(err).toBeInstanceOf(UnwrapError);
+            expect(err).toBeInstanceOf(Error);
+            expect(err.name).toBe("UnwrapError");
+            expect(err.cause).toBe(errorObj);
+            expect(err.stack).toContain("UnwrapError");
+        });
+
+        test("should be thrown by expect, unwrapErr and expectErr", () => {
+            expect(() => Result.Err({ code: 1 }).expect("loading")).toThrow(UnwrapError);
+            expect(() => Result.Ok(1).unwrapErr()).toThrow(UnwrapError);
+            expect(() => Result.Ok(1).expectErr("loading")).toThrow(UnwrapError);
+        });
+
+        test("should be thrown by Option.unwrap and Option.expect", () => {
+            expect(() => Option.None().unwrap()).toThrow(UnwrapError);
+            expect(() => Option.None().expect("missing")).toThrow(UnwrapError);
+        });
+    });
+
+    describe("context / withContext", () => {
+        test("should wrap the error in a ContextError", () => {
+            const err = Result.Err<number, Error>(errorObj).context("reading config.json").unwrapErr();
+            expect(err).toBeInstanceOf(ContextError);
+            expect(err.message).toBe("reading config.json");
+            expect(err.cause).toBe(errorObj);
+        });
+
+        test("should compute the message from the error", () => {
+            const err = Result.Err<number, string>("config.json").withContext(path => `reading ${path}`).unwrapErr();
+            expect(err.message).toBe("reading config.json");
+        });
+
+        test("should leave Ok unchanged", () => {
+            expect(Result.Ok<number, Error>(1).context("unused").unwrap()).toBe(1);
+            expect(Result.Ok<number, Error>(1).withContext(() => { throw new Error("not called"); }).unwrap()).toBe(1);
+        });
+
+        test("should be available on AsyncResult", async () => {
+            const res = await AsyncResult.Err<number, Error>(errorObj).context("reading").withContext(() => "loading");
+            expect(errorChain(res.unwrapErr())).toEqual([res.unwrapErr(), res.unwrapErr().cause, errorObj]);
+        });
+    });
+
+    describe("errorChain", () => {
+        test("should list the error and its causes, outermost first", () => {
+            const inner = new ContextError("reading config.json", errorObj);
+            const outer = new ContextError("loading config", inner);
+            expect(errorChain(outer)).toEqual([outer, inner, errorObj]);
+        });
+
+        test("should stop at cycles", () => {
+            const a = new ContextError<unknown>("a", undefined);
+            const b = new ContextError<unknown>("b", a);
+            (a as { cause: unknown }).cause = b;
+            expect(errorChain(a)).toEqual([a, b]);
+        });
+    });
+
+    describe("formatErrorChain", () => {
+        test("should print a single error", () => {
+            expect(formatErrorChain(errorObj)).toBe(errorObj.message);
+            expect(formatErrorChain({ code: 1 })).toBe('{"code":1}');
+        });
+
+        test("should print the full chain", () => {
+            const err = Result.Err<number, Error>(errorObj)
+                .context("reading config.json")
+                .context("loading config")
+                .unwrapErr();
+            expect(formatErrorChain(err)).toBe([
+                "loading config",
+                "",
+                "Caused by:",
+                "    0: reading config.json",
+                `    1: ${errorObj.message}`,
+            ].join("\n"));
+        });
+    });
+
+    describe("defineError", () => {
+        class NotFound extends defineError("NotFound")<{ id: number }> {}
+        const Timeout = defineError("Timeout");
+        const Invalid = defineError("Invalid", (fields: unknown): fields is { field: string } =>
+            typeof (fields as { field?: unknown }).field === "string");
+
+        test("should create errors carrying a tag and fields", () => {
+            const err = new NotFound({ id: 3 });
+            expect(err._tag).toBe("NotFound");
+            expect(err.id).toBe(3);
+            expect(err.name).toBe("NotFound");
+            expect(err.message).toBe("NotFound");
+            expect(NotFound._tag).toBe("NotFound");
+        });
+
+        test("should support instanceof", () => {
+            const err = new NotFound({ id: 3 });
+            expect(err).toBeInstanceOf(NotFound);
+            expect(err).toBeInstanceOf(TaggedError);
+            expect(err).toBeInstanceOf(Error);
+            expect(err).not.toBeInstanceOf(Timeout);
+        });
+
+        test("should accept a message and a cause", () => {
+            const err = new Timeout(undefined, { message: "timed out after 500ms", cause: errorObj });
+            expect(err.message).toBe("timed out after 500ms");
+            expect(err.cause).toBe(errorObj);
+            expect(errorChain(err)).toEqual([err, errorObj]);
+        });
+
+        test("should keep the tag if the fields carry a _tag", () => {
+            class Retagged extends defineError("Retagged")<{ _tag: string, id: number }> {}
+            // @ts-expect-error the fields may not include a _tag
+            const err = new Retagged({ _tag: "Other", id: 3 });
+            expect(err._tag).toBe("Retagged");
+            expect(err.id).toBe(3);
+            const untyped: object = { _tag: "Other" };
+            expect(new Timeout(untyped)._tag).toBe("Timeout");
+        });
+
+        test("should check the fields against the schema", () => {
+            expect(new Invalid({ field: "name" }).field).toBe("name");
+            expect(() => new Invalid({ field: 1 } as unknown as { field: string })).toThrow(TypeError);
+            expect(() => new Invalid({ field: 1 } as unknown as { field: string })).toThrow("Invalid fields for Invalid: { field: 1 }");
+            const cyclic: Record<string, unknown> = { count: 1n };
+            cyclic.self = cyclic;
+            expect(() => new Invalid(cyclic as unknown as { field: string })).toThrow(/^Invalid fields for Invalid: /);
+        });
+    });
+
+    describe("catchTag", () => {
+        class NotFound extends defineError("NotFound")<{ id: number }> {}
+        class Timeout extends defineError("Timeout")<{ ms: number }> {}
+        const load = (error: NotFound | Timeout): Result<string, NotFound | Timeout> => Result.Err(error);
+
+        test("should handle the matching variant and remove it from the error type", () => {
+            const res: Result<string, Timeout> = load(new NotFound({ id: 3 })).catchTag("NotFound", err => Result.Ok(`default ${err.id}`));
+            expect(res.unwrap()).toBe("default 3");
+        });
+
+        test("should leave other variants and Ok unchanged", () => {
+            const timeout = load(new Timeout({ ms: 500 }));
+            expect(timeout.catchTag("NotFound", () => Result.Ok("default"))).toBe(timeout);
+            const ok = Result.Ok<string, NotFound>("found");
+            expect(ok.catchTag("NotFound", () => Result.Ok("default"))).toBe(ok);
+        });
+
+        test("should also match kind-tagged errors", () => {
+            const res = Result.Err<number, { kind: "Empty" } | { kind: "Full" }>({ kind: "Empty" }).catchTag("Empty", () => Result.Ok(0));
+            expect(res.unwrap()).toBe(0);
+        });
+
+        test("should be available on AsyncResult with async handlers", async () => {
+            const res = await AsyncResult.from(load(new Timeout({ ms: 500 })))
+                .catchTag("Timeout", async err => Result.Err<string, string>(`retry after ${err.ms}`))
+                .catchTag("NotFound", () => Result.Ok<string, never>("default"));
+            const err: string = res.unwrapErr();
+            expect(err).toBe("retry after 500");
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, test } from "@jest/globals";
+import { RuleTester } from "eslint";
+import * as path from "path";
+import tseslint from "typescript-eslint";
+import plugin from "../eslint-plugin";
+
+RuleTester.describe = describe;
+RuleTester.it = test;
+RuleTester.itOnly = test.only;
+
+const ruleTester = new RuleTester({
+    languageOptions: { parser: tseslint.parser },
+});
+
+const typedRuleTester = new RuleTester({
+    languageOptions: {
+        parser: tseslint.parser,
+        parserOptions: {
+            projectService: { allowDefaultProject: ["*.ts"] },
+            tsconfigRootDir: path.join(__dirname, "..", ".."),
+        },
+    },
+});
+
+const typedFilename = path.join(__dirname, "..", "..", "fixture.ts");
+
+const declarations = `
+declare class Result<T, E> { unwrap(): T; expect(msg: string): T; unwrapUnchecked(): T; map<U>(op: (value: T) => U): Result<U, E>; }
+declare class Request { expect(status: number): Request; }
+declare function load(): Result<number, string>;
+declare function loadAsync(): Promise<Result<number, string>>;
+declare class AsyncResult<T, E> implements PromiseLike<Result<T, E>> { then<A = Result<T, E>, B = never>(onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null, onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null): PromiseLike<A | B>; }
+declare function retry(): AsyncResult<number, string>;
+declare function save(): Promise<void>;
+declare function request(): Request;
+`;
+
+describe("eslint-plugin", () => {
+    ruleTester.run("must-use-result", plugin.rules["must-use-result"], {
+        valid: [
+            "const res = Result.Ok(1);",
+            "void Result.try(() => JSON.parse(text));",
+            "save(Result.Ok(1));",
+            "load();",
+            "const fail = () => Result.Err('boom');",
+            "Result.Ok(1).unwrap();",
+            "Result.try(f).match({ Ok: a, Err: b });",
+            "Result.try(f).map(g).unwrapOr(0);",
+        ],
+        invalid: [
+            { code: "Result.Ok(1);", errors: [{ messageId: "unused" }] },
+            { code: "Result.fromJSON(raw).inspect(log);", errors: [{ messageId: "unused" }] },
+            { code: "Result.Ok(Result.try(f).unwrap()).map(g);", errors: [{ messageId: "unused" }] },
+            { code: "Result.Ok(Result.try(f).match({ Ok: a, Err: b }));", errors: [{ messageId: "unused" }] },
+            { code: "Result.try(f).context('parsing').mapErr(wrap).tapErr(log);", errors: [{ messageId: "unused" }] },
+            { code: "Result.try(() => JSON.parse(text)).map(value => value.id);", errors: [{ messageId: "unused" }] },
+            { code: "async function run() { await Result.fromPromise(fetch(url)); }", errors: [{ messageId: "unused" }] },
+        ],
+    });
+
+    typedRuleTester.run("must-use-result (typed)", plugin.rules["must-use-result"], {
+        valid: [
+            { code: `${declarations} const res = load();`, filename: typedFilename },
+            { code: `${declarations} void load();`, filename: typedFilename },
+            { code: `${declarations} request();`, filename: typedFilename },
+            { code: `${declarations} void loadAsync();`, filename: typedFilename },
+            { code: `${declarations} save();`, filename: typedFilename },
+        ],
+        invalid: [
+            { code: `${declarations} load();`, filename: typedFilename, errors: [{ messageId: "unused" }] },
+            { code: `${declarations} load().map(x => x + 1);`, filename: typedFilename, errors: [{ messageId: "unused" }] },
+            { code: `${declarations} async function run() { await loadAsync(); }`, filename: typedFilename, errors: [{ messageId: "unused" }] },
+            { code: `${declarations} loadAsync();`, filename: typedFilename, errors: [{ messageId: "unused" }] },
+            { code: `${declarations} retry();`, filename: typedFilename, errors: [{ messageId: "unused" }] },
+        ],
+    });
+
+    ruleTester.run("no-unwrap-in-production", plugin.rules["no-unwrap-in-production"], {
+        valid: [
+            "res.unwrapOr(0);",
+            "res.match({ Ok: value => value, Err: () => 0 });",
+            { code: "res.unwrap();", filename: "src/user.test.ts" },
+            { code: "res.unwrap();", filename: "src/__tests__/user.ts" },
+            { code: "res.unwrap();", filename: "scripts/seed.ts", options: [{ allowFiles: ["^scripts/"] }] },
+            { code: "res.expect('config must be valid');", options: [{ allowMethods: ["expect"] }] },
+        ],
+        invalid: [
+            { code: "res.unwrap();", filename: "src/user.ts", errors: [{ messageId: "unwrap", data: { method: "unwrap" } }] },
+            { code: "const value = res.expect('loading');", errors: [{ messageId: "unwrap", data: { method: "expect" } }] },
+            { code: "res['unwrapErr']();", errors: [{ messageId: "unwrap", data: { method: "unwrapErr" } }] },
+            { code: "res.unwrap();", filename: "src/user.test.ts", options: [{ allowFiles: [] }], errors: [{ messageId: "unwrap" }] },
+        ],
+    });
+
+    typedRuleTester.run("no-unwrap-in-production (typed)", plugin.rules["no-unwrap-in-production"], {
+        valid: [
+            { code: `${declarations} request().expect(200);`, filename: typedFilename },
+        ],
+        invalid: [
+            { code: `${declarations} load().expect("loading");`, filename: typedFilename, errors: [{ messageId: "unwrap", data: { method: "expect" } }] },
+        ],
+    });
+
+    ruleTester.run("no-unchecked-unwrap", plugin.rules["no-unchecked-unwrap"], {
+        valid: [
+            "res.unwrapOr(0);",
+            "unwrapUnchecked(res);",
+        ],
+        invalid: [
+            { code: "res.unwrapUnchecked();", errors: [{ messageId: "unchecked", data: { method: "unwrapUnchecked" } }] },
+            { code: "res.unwrapErrUnchecked();", errors: [{ messageId: "unchecked", data: { method: "unwrapErrUnchecked" } }] },
+        ],
+    });
+});
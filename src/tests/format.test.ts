@@ -0,0 +1,72 @@
+import { describe, expect, test } from "@jest/globals";
+import { inspect } from "util";
+import { Option, Result, defineError, formatValue } from "../index";
+
+class NotFound extends defineError("NotFound")<{ id: number }> {}
+
+class Point {
+    constructor(readonly x: number, readonly y: number) {}
+}
+
+describe("formatValue", () => {
+    test("should format primitives like Rust's Debug output", () => {
+        expect(formatValue("a\"b")).toBe("\"a\\\"b\"");
+        expect(formatValue(42)).toBe("42");
+        expect(formatValue(10n)).toBe("10n");
+        expect(formatValue(null)).toBe("null");
+        expect(formatValue(undefined)).toBe("undefined");
+        expect(formatValue(Symbol("s"))).toBe("Symbol(s)");
+        expect(formatValue(function named() {})).toBe("[Function named]");
+    });
+
+    test("should format collections and class instances", () => {
+        expect(formatValue([1, "a", [true]])).toBe("[1, \"a\", [true]]");
+        expect(formatValue({ id: 3, "first name": "Ada" })).toBe("{ id: 3, \"first name\": \"Ada\" }");
+        expect(formatValue({})).toBe("{}");
+        expect(formatValue(new Map([["a", 1n]]))).toBe("Map { \"a\": 1n }");
+        expect(formatValue(new Set([1, 2]))).toBe("Set { 1, 2 }");
+        expect(formatValue(new Point(1, 2))).toBe("Point { x: 1, y: 2 }");
+        expect(formatValue(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+        expect(formatValue(Object.create(null))).toBe("{}");
+    });
+
+    test("should format errors", () => {
+        expect(formatValue(new Error("boom"))).toBe("Error(\"boom\")");
+        expect(formatValue(new TypeError("bad"))).toBe("TypeError(\"bad\")");
+        expect(formatValue(new NotFound({ id: 3 }))).toBe("NotFound { id: 3 }");
+        expect(formatValue(new (defineError("Empty"))())).toBe("Empty");
+    });
+
+    test("should format cycles without recursing forever", () => {
+        const node: { name: string, self?: unknown } = { name: "a" };
+        node.self = node;
+        expect(formatValue(node)).toBe("{ name: \"a\", self: [Circular] }");
+        const shared = { id: 1 };
+        expect(formatValue([shared, shared])).toBe("[{ id: 1 }, { id: 1 }]");
+    });
+});
+
+describe("toString / inspect", () => {
+    test("should render the variant and its contents", () => {
+        expect(Result.Ok(42).toString()).toBe("Ok(42)");
+        expect(Result.Err(new NotFound({ id: 3 })).toString()).toBe("Err(NotFound { id: 3 })");
+        expect(`${Result.Ok(Option.Some("a"))}`).toBe("Ok(Some(\"a\"))");
+        expect(Option.None().toString()).toBe("None");
+    });
+
+    test("should be used by util.inspect", () => {
+        expect(inspect(Result.Ok({ id: 1 }))).toBe("Ok({ id: 1 })");
+        expect(inspect({ user: Result.Err("missing") })).toBe("{ user: Err(\"missing\") }");
+        expect(inspect(Option.Some(1))).toBe("Some(1)");
+    });
+});
+
+describe("panic messages", () => {
+    test("should format the contained value", () => {
+        expect(() => Result.Err({ code: 1 }).unwrap()).toThrow("Called Result.unwrap() on an Error value: { code: 1 }");
+        expect(() => Result.Ok(new Map([[1, 2]])).unwrapErr()).toThrow("Called Result.unwrapErr() on an Ok value: Map { 1: 2 }");
+        expect(() => Result.Err(new NotFound({ id: 3 })).expect("loading user")).toThrow("loading user: NotFound { id: 3 }");
+        expect(() => Result.Ok({ id: 3 }).expectErr("expected a failure")).toThrow("expected a failure: { id: 3 }");
+        expect(() => Result.Err(10n).unwrap()).toThrow("Called Result.unwrap() on an Error value: 10n");
+    });
+});
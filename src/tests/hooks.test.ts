@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, test, jest } from "@jest/globals";
+import { AsyncResult, Option, Result, Schema, UnwrapError } from "../index";
+
+describe("configure", () => {
+    afterEach(() => {
+        Result.configure({});
+    });
+
+    test("should call onErr for every Err creation", () => {
+        const onErr = jest.fn();
+        Result.configure({ onErr });
+        Result.Err("first");
+        Result.Ok(1);
+        Result.try(() => { throw "second"; }, error => error);
+        expect(onErr.mock.calls).toEqual([["first"], ["second"]]);
+    });
+
+    test("should not call onErr for the Errs derived from another Err", async () => {
+        const onErr = jest.fn();
+        Result.configure({ onErr });
+        Result.Err("boom").context("a").context("b").mapErr(err => err.message);
+        expect(onErr).toHaveBeenCalledTimes(1);
+        Result.allSettled([Result.Err("first"), Result.Err("second")]);
+        Result.any([Result.Err("third")]);
+        expect(onErr).toHaveBeenCalledTimes(4);
+        await AsyncResult.Err("async").mapErr(err => `${err}!`);
+        expect(onErr).toHaveBeenCalledTimes(5);
+    });
+
+    test("should call onErr once per failed Schema.parse", () => {
+        const onErr = jest.fn();
+        Result.configure({ onErr });
+        const schema = Schema.union(Schema.string(), Schema.number());
+        schema.parse(1);
+        expect(onErr).not.toHaveBeenCalled();
+        Schema.object({ name: Schema.string(), tags: Schema.array(schema) }).parse({ name: 1, tags: [true, null] });
+        expect(onErr).toHaveBeenCalledTimes(1);
+        expect(onErr.mock.calls[0][0]).toHaveLength(3);
+    });
+
+    test("should call onUnwrapPanic before throwing", () => {
+        const onUnwrapPanic = jest.fn();
+        Result.configure({ onUnwrapPanic });
+        expect(() => Result.Err("boom").unwrap()).toThrow(UnwrapError);
+        expect(() => Result.Ok(1).expectErr("expected an error")).toThrow(UnwrapError);
+        expect(() => Option.None().unwrap()).toThrow(UnwrapError);
+        expect(onUnwrapPanic).toHaveBeenCalledTimes(3);
+        const [error] = onUnwrapPanic.mock.calls[0] as [UnwrapError];
+        expect(error).toBeInstanceOf(UnwrapError);
+        expect(error.cause).toBe("boom");
+    });
+
+    test("should return the previous hooks and replace them", () => {
+        const first = { onErr: jest.fn() };
+        const second = { onUnwrapPanic: jest.fn() };
+        expect(Result.configure(first)).toEqual({});
+        expect(Result.configure(second)).toEqual(first);
+        Result.Err("ignored");
+        expect(first.onErr).not.toHaveBeenCalled();
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test, jest } from "@jest/globals";
-import { Result } from "../index";
+import { AsyncResult, Option, Result, ResultType } from "../index";
 
 describe("Result", () => {
     const okValue = 42;
@@ -20,7 +20,7 @@ describe("Result", () => {
 
         test("should throw error for Err", () => {
             expect(() => errResult.unwrap()).toThrow(
-                `Called Result.unwrap() on an Error value: ${JSON.stringify(errorObj)}`
+                'Called Result.unwrap() on an Error value: Error("Test error")'
             );
         });
     });
@@ -90,7 +90,7 @@ describe("Result", () => {
 
         test("should throw error with custom message for Err", () => {
             expect(() => errResult.expect(customMsg)).toThrow(
-                `${customMsg}: ${errorObj}`
+                `${customMsg}: Error("Test error")`
             );
         });
     });
@@ -118,6 +118,16 @@ describe("Result", () => {
         });
     });
 
+    describe("okOption", () => {
+        test("should return Some for Ok", () => {
+            expect(okResult.okOption().unwrap()).toBe(okValue);
+        });
+
+        test("should return None for Err", () => {
+            expect(errResult.okOption().isNone()).toBe(true);
+        });
+    });
+
     describe("isOk", () => {
         test("should return true for Ok", () => {
             expect(okResult.isOk()).toBe(true);
@@ -152,6 +162,16 @@ describe("Result", () => {
         });
     });
 
+    describe("errOption", () => {
+        test("should return None for Ok", () => {
+            expect(okResult.errOption().isNone()).toBe(true);
+        });
+
+        test("should return Some for Err", () => {
+            expect(errResult.errOption().unwrap()).toBe(errorObj);
+        });
+    });
+
     describe("isErr", () => {
         test("should return false for Ok", () => {
             expect(okResult.isErr()).toBe(false);
@@ -234,9 +254,14 @@ describe("Result", () => {
         test("should preserve Err when mapping over Err", () => {
             const res = errResult.map(addOne);
             expect(() => res.unwrap()).toThrow(
-                `Called Result.unwrap() on an Error value: ${JSON.stringify(errorObj)}`
+                'Called Result.unwrap() on an Error value: Error("Test error")'
             );
         });
+
+        test("should reuse the Result when the value is unchanged", () => {
+            expect(okResult.map(value => value)).toBe(okResult);
+            expect(okResult.map(addOne)).not.toBe(okResult);
+        });
     });
 
     describe("mapOr", () => {
@@ -272,4 +297,459 @@ describe("Result", () => {
             expect(res.unwrap()).toBe(okValue);
         });
     });
+
+    describe("transpose", () => {
+        test("should map Ok(None) to None", () => {
+            expect(Result.Ok<Option<number>, Error>(Option.None()).transpose().isNone()).toBe(true);
+        });
+
+        test("should map Ok(Some) to Some(Ok)", () => {
+            const opt = Result.Ok<Option<number>, Error>(Option.Some(okValue)).transpose();
+            expect(opt.unwrap().unwrap()).toBe(okValue);
+        });
+
+        test("should map Err to Some(Err)", () => {
+            const opt = Result.Err<Option<number>, Error>(errorObj).transpose();
+            expect(opt.unwrap().unwrapErr()).toBe(errorObj);
+        });
+    });
+
+    describe("try", () => {
+        test("should return Ok with the return value", () => {
+            expect(Result.try(() => okValue).unwrap()).toBe(okValue);
+        });
+
+        test("should return Err with a thrown Error", () => {
+            expect(Result.try(() => { throw errorObj; }).unwrapErr()).toBe(errorObj);
+        });
+
+        test("should wrap non-Error throwables into an Error", () => {
+            const err = Result.try(() => { throw "boom"; }).unwrapErr();
+            expect(err).toBeInstanceOf(Error);
+            expect(err.message).toBe("Unexpected error: boom");
+            expect((err as Error & { cause?: unknown }).cause).toBe("boom");
+        });
+
+        test("should use the provided mapError", () => {
+            const res = Result.try(() => { throw "boom"; }, error => `mapped ${error}`);
+            expect(res.unwrapErr()).toBe("mapped boom");
+        });
+    });
+
+    describe("fromPromise", () => {
+        test("should return an AsyncResult of Ok for a resolved promise", async () => {
+            const res = Result.fromPromise(Promise.resolve(okValue));
+            expect(res).toBeInstanceOf(AsyncResult);
+            expect((await res).unwrap()).toBe(okValue);
+        });
+
+        test("should return an AsyncResult of Err for a rejected promise", async () => {
+            expect((await Result.fromPromise(Promise.reject(errorObj))).unwrapErr()).toBe(errorObj);
+        });
+
+        test("should use the provided mapError", async () => {
+            const res = await Result.fromPromise(Promise.reject(404), status => ({ status }));
+            expect(res.unwrapErr()).toEqual({ status: 404 });
+        });
+    });
+
+    describe("wrap", () => {
+        const parse = Result.wrap((text: string, radix: number) => {
+            const value = parseInt(text, radix);
+            if (Number.isNaN(value)) {
+                throw new Error(`Not a number: ${text}`);
+            }
+            return value;
+        });
+
+        test("should preserve parameters and return Ok for a sync function", () => {
+            expect(parse("ff", 16).unwrap()).toBe(255);
+        });
+
+        test("should return Err when a sync function throws", () => {
+            expect(parse("zz", 10).unwrapErr().message).toBe("Not a number: zz");
+        });
+
+        test("should return an AsyncResult for an async function", async () => {
+            const fetchValue = Result.wrap(async (fail: boolean) => {
+                if (fail) {
+                    throw errorObj;
+                }
+                return okValue;
+            }, error => (error as Error).message);
+            expect(fetchValue(false)).toBeInstanceOf(AsyncResult);
+            expect((await fetchValue(false)).unwrap()).toBe(okValue);
+            expect((await fetchValue(true)).unwrapErr()).toBe(errorObj.message);
+        });
+    });
+
+    describe("gen", () => {
+        const parse = (text: string): Result<number, string> => {
+            const value = Number(text);
+            return Number.isNaN(value) ? Result.Err(`Not a number: ${text}`) : Result.Ok(value);
+        };
+        const positive = (value: number): Result<number, { negative: number }> =>
+            value >= 0 ? Result.Ok(value) : Result.Err({ negative: value });
+
+        test("should unwrap every Ok and return Ok with the final value", () => {
+            const res = Result.gen(function* () {
+                const a = yield* parse("1").bind();
+                const b = yield* positive(a + 1).bind();
+                return a + b;
+            });
+            expect(res.unwrap()).toBe(3);
+        });
+
+        test("should short-circuit on the first Err", () => {
+            const after = jest.fn();
+            const res: Result<number, string | { negative: number }> = Result.gen(function* () {
+                const a = yield* parse("-1").bind();
+                const b = yield* positive(a).bind();
+                after();
+                const c = yield* parse("x").bind();
+                return b + c;
+            });
+            expect(res.unwrapErr()).toEqual({ negative: -1 });
+            expect(after).not.toHaveBeenCalled();
+        });
+
+        test("should run finally blocks when short-circuiting", () => {
+            const cleanup = jest.fn();
+            const res = Result.gen(function* () {
+                try {
+                    return yield* parse("x").bind();
+                } finally {
+                    cleanup();
+                }
+            });
+            expect(res.unwrapErr()).toBe("Not a number: x");
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        test("should finish binding an Err, and compare Err Results with toEqual without a custom tester", () => {
+            const iterator = Result.Err("x").bind();
+            expect(iterator.next().done).toBe(false);
+            expect(iterator.next()).toEqual({ done: true, value: undefined });
+            expect(Result.Err("x")).toEqual(Result.Err("x"));
+            expect(Result.Err("x")).not.toEqual(Result.Err("y"));
+        });
+
+        test("should throw a TypeError if a Result is yielded without bind", async () => {
+            const cleanup = jest.fn();
+            // Typed code cannot yield anything but Results, so the generators are cast as untyped callers would write them
+            const unbound = function* () {
+                try {
+                    return yield* Result.Ok(5);
+                } finally {
+                    cleanup();
+                }
+            };
+            expect(() => Result.gen(unbound as never)).toThrow(
+                new TypeError("Result.gen expected a Result to be yielded, got 5. Use `yield* result.bind()` to unwrap a Result")
+            );
+            expect(cleanup).toHaveBeenCalledTimes(1);
+            const unboundAsync = async function* () {
+                return yield* Result.Ok("a");
+            };
+            await expect(Result.gen(unboundAsync as never)).rejects.toThrow(TypeError);
+        });
+
+        test("should support async generators yielding Results and AsyncResults", async () => {
+            const load = (id: number) => AsyncResult.Ok<string, Error>(`user ${id}`);
+            const res = Result.gen(async function* () {
+                const id = yield* parse("7").bind();
+                const user = yield* load(id).bind();
+                const other = yield* (await Promise.resolve(positive(id))).bind();
+                return `${user} ${other}`;
+            });
+            expect(res).toBeInstanceOf(AsyncResult);
+            expect((await res).unwrap()).toBe("user 7 7");
+        });
+
+        test("should short-circuit async generators on the first Err", async () => {
+            const res = Result.gen(async function* () {
+                yield* AsyncResult.Err<number, Error>(errorObj).bind();
+                return 1;
+            });
+            expect((await res).unwrapErr()).toBe(errorObj);
+        });
+    });
+
+    describe("all / allAsync", () => {
+        test("should return Ok with every value in order", () => {
+            const res: Result<[number, string], Error | string> = Result.all([okResult, Result.Ok<string, string>("a")]);
+            expect(res.unwrap()).toEqual([okValue, "a"]);
+        });
+
+        test("should return the first Err", () => {
+            const other = Result.Err<number, Error>(new Error("other"));
+            expect(Result.all([okResult, errResult, other])).toBe(errResult);
+        });
+
+        test("should await every Result", async () => {
+            const res = await Result.allAsync([okResult, AsyncResult.Ok<string, Error>("a"), Promise.resolve(Result.Ok<boolean, Error>(true))]);
+            expect(res.unwrap()).toEqual([okValue, "a", true]);
+            expect((await Result.allAsync([AsyncResult.Err<number, Error>(errorObj)])).unwrapErr()).toBe(errorObj);
+        });
+    });
+
+    describe("allSettled / allSettledAsync", () => {
+        test("should return Ok with every value when all are Ok", () => {
+            expect(Result.allSettled([okResult, okResult]).unwrap()).toEqual([okValue, okValue]);
+        });
+
+        test("should accumulate every error", () => {
+            const res = Result.allSettled([errResult, okResult, Result.Err<number, string>("second")]);
+            expect(res.unwrapErr()).toEqual([errorObj, "second"]);
+        });
+
+        test("should await every Result", async () => {
+            const res = await Result.allSettledAsync([AsyncResult.Err<number, string>("a"), Promise.resolve(Result.Err<number, string>("b"))]);
+            expect(res.unwrapErr()).toEqual(["a", "b"]);
+        });
+    });
+
+    describe("any / anyAsync", () => {
+        test("should return the first Ok", () => {
+            const other = Result.Ok<number, Error>(newValue);
+            expect(Result.any([errResult, other, okResult])).toBe(other);
+        });
+
+        test("should return every error when there is no Ok", () => {
+            const res: Result<number, [Error, string]> = Result.any([errResult, Result.Err<number, string>("second")]);
+            expect(res.unwrapErr()).toEqual([errorObj, "second"]);
+        });
+
+        test("should await every Result", async () => {
+            expect((await Result.anyAsync([AsyncResult.Err<number, Error>(errorObj), AsyncResult.Ok<number, Error>(1)])).unwrap()).toBe(1);
+        });
+    });
+
+    describe("partition / partitionAsync", () => {
+        test("should split values and errors", () => {
+            expect(Result.partition([okResult, errResult, okResult])).toEqual([[okValue, okValue], [errorObj]]);
+        });
+
+        test("should consume async iterables", async () => {
+            async function* source() {
+                yield okResult;
+                yield errResult;
+            }
+            expect(await Result.partitionAsync(source())).toEqual([[okValue], [errorObj]]);
+        });
+    });
+
+    describe("collect / collectAsync", () => {
+        test("should collect any iterable", () => {
+            expect(Result.collect(new Set([okResult])).unwrap()).toEqual([okValue]);
+        });
+
+        test("should stop pulling at the first Err", () => {
+            const pulled = jest.fn();
+            function* source() {
+                yield okResult;
+                yield errResult;
+                pulled();
+                yield okResult;
+            }
+            expect(Result.collect(source())).toBe(errResult);
+            expect(pulled).not.toHaveBeenCalled();
+        });
+
+        test("should collect async iterables lazily", async () => {
+            const pulled = jest.fn();
+            async function* source() {
+                yield okResult;
+                yield errResult;
+                pulled();
+            }
+            expect(await Result.collectAsync(source())).toBe(errResult);
+            expect(pulled).not.toHaveBeenCalled();
+            expect((await Result.collectAsync([Promise.resolve(okResult), okResult])).unwrap()).toEqual([okValue, okValue]);
+        });
+    });
+
+    describe("match", () => {
+        test("should call the Ok arm for Ok", () => {
+            expect(okResult.match({ Ok: x => `ok ${x}`, Err: e => `err ${e.message}` })).toBe(`ok ${okValue}`);
+        });
+
+        test("should call the Err arm for Err", () => {
+            expect(errResult.match({ Ok: x => `ok ${x}`, Err: e => `err ${e.message}` })).toBe(`err ${errorObj.message}`);
+        });
+    });
+
+    describe("matchErr", () => {
+        type LoadError = { kind: "NotFound", id: number } | { kind: "Timeout", ms: number };
+        const notFound = Result.Err<string, LoadError>({ kind: "NotFound", id: 3 });
+        const timeout = Result.Err<string, LoadError>({ kind: "Timeout", ms: 500 });
+
+        test("should dispatch on the error tag", () => {
+            const describe = (res: Result<string, LoadError>) => res.matchErr({
+                Ok: value => value,
+                NotFound: err => `missing ${err.id}`,
+                Timeout: err => `timed out after ${err.ms}`,
+            });
+            expect(describe(Result.Ok("found"))).toBe("found");
+            expect(describe(notFound)).toBe("missing 3");
+            expect(describe(timeout)).toBe("timed out after 500");
+        });
+
+        test("should fall back to the _ arm for unhandled tags", () => {
+            const arms = { Ok: (value: string) => value, NotFound: () => "missing", _: (err: LoadError) => `other ${err.kind}` };
+            expect(notFound.matchErr(arms)).toBe("missing");
+            expect(timeout.matchErr(arms)).toBe("other Timeout");
+        });
+
+        test("should require every tag to be handled without a fallback", () => {
+            // @ts-expect-error the Timeout arm is missing
+            expect(() => timeout.matchErr({ Ok: value => value, NotFound: () => "missing" })).toThrow(
+                'Called Result.matchErr() on an Error value without a matching arm: { kind: "Timeout", ms: 500 }'
+            );
+        });
+
+        test("should require the fallback if some errors carry no tag", () => {
+            const untagged = Result.Err<number, Error>(errorObj);
+            // @ts-expect-error the _ arm is missing for the untagged Error
+            expect(() => untagged.matchErr({ Ok: () => "ok" })).toThrow("without a matching arm");
+            expect(untagged.matchErr({ Ok: () => "ok", _: err => err.message })).toBe("Test error");
+
+            const mixed = Result.Err<number, { kind: "A" } | string>("plain");
+            // @ts-expect-error the _ arm is missing for the untagged string
+            expect(() => mixed.matchErr({ Ok: () => "ok", A: () => "a" })).toThrow("without a matching arm");
+            expect(mixed.matchErr({ Ok: () => "ok", A: () => "a", _: err => `other ${err}` })).toBe("other plain");
+        });
+
+        test("should read the tag from _tag", () => {
+            const res = Result.Err<number, { _tag: "Invalid", field: string } | { _tag: "Missing" }>({ _tag: "Invalid", field: "name" });
+            expect(res.matchErr({ Ok: () => "ok", Invalid: err => err.field, Missing: () => "missing" })).toBe("name");
+        });
+    });
+
+    describe("narrowing", () => {
+        test("should expose the value after isOk", () => {
+            const res: Result<number, Error> = okResult;
+            if (res.isOk()) {
+                const value: number = res.value;
+                expect(value).toBe(okValue);
+            } else {
+                throw new Error("expected Ok");
+            }
+        });
+
+        test("should expose the error after isErr", () => {
+            const res: Result<number, Error> = errResult;
+            if (res.isErr()) {
+                const error: Error = res.error;
+                expect(error).toBe(errorObj);
+            } else {
+                throw new Error("expected Err");
+            }
+        });
+
+        test("should keep the other branch of isOk when the value may be undefined", () => {
+            const check = (res: Result<void, string>): string => {
+                if (res.isOk()) {
+                    const value: void = res.value;
+                    return `ok ${value}`;
+                } else {
+                    const error: string | undefined = res.error;
+                    return `error ${error}`;
+                }
+            };
+            expect(check(Result.Ok(undefined))).toBe("ok undefined");
+            expect(check(Result.Err("failed"))).toBe("error failed");
+            const res: Result<void, string> = Result.Err("failed");
+            if (!res.isOk()) {
+                expect(res.error).toBe("failed");
+            }
+        });
+
+        test("should keep the other branch of isErr when the value or error is undefined", () => {
+            const check = (res: Result<undefined, Error>): Error | undefined => {
+                if (res.isErr()) {
+                    const error: Error = res.error;
+                    return error;
+                } else {
+                    const value: undefined = res.unwrap();
+                    return value;
+                }
+            };
+            expect(check(Result.Ok(undefined))).toBeUndefined();
+            expect(check(errResult as Result<never, Error>)).toBe(errorObj);
+            const res: Result<undefined, Error> = Result.Ok(undefined);
+            if (!res.isErr()) {
+                expect(res.value).toBeUndefined();
+            }
+            const failed: Result<number, undefined> = Result.Err(undefined);
+            if (failed.isOk()) {
+                throw new Error("expected Err");
+            } else {
+                const error: undefined = failed.unwrapErr();
+                expect(error).toBeUndefined();
+            }
+        });
+
+        test("should leave value and error undefined on the other variant", () => {
+            expect(okResult.error).toBeUndefined();
+            expect(errResult.value).toBeUndefined();
+        });
+    });
+
+    describe("toUnion", () => {
+        const describeResult = (res: Result<number, Error>): string => {
+            const union = res.toUnion();
+            switch (union.type) {
+                case ResultType.Ok:
+                    return `value ${union.value}`;
+                case ResultType.Err:
+                    return `error ${union.err.message}`;
+            }
+        };
+
+        test("should return the discriminated union of the variants", () => {
+            expect(okResult.toUnion()).toEqual({ type: ResultType.Ok, value: okValue });
+            expect(errResult.toUnion()).toEqual({ type: ResultType.Err, err: errorObj });
+        });
+
+        test("should narrow in a switch", () => {
+            expect(describeResult(okResult)).toBe(`value ${okValue}`);
+            expect(describeResult(errResult)).toBe(`error ${errorObj.message}`);
+        });
+
+        test("should not expose the internal representation", () => {
+            const union = okResult.toUnion() as { value: number };
+            union.value = newValue;
+            expect(okResult.unwrap()).toBe(okValue);
+        });
+    });
+
+    describe("inspect / inspectErr / tap / tapErr", () => {
+        test("should call the value callback for Ok and return the same Result", () => {
+            const onValue = jest.fn();
+            const onErr = jest.fn();
+            expect(okResult.inspect(onValue).inspectErr(onErr).tap(onValue).tapErr(onErr)).toBe(okResult);
+            expect(onValue).toHaveBeenCalledTimes(2);
+            expect(onValue).toHaveBeenCalledWith(okValue);
+            expect(onErr).not.toHaveBeenCalled();
+        });
+
+        test("should call the error callback for Err and return the same Result", () => {
+            const onValue = jest.fn();
+            const onErr = jest.fn();
+            expect(errResult.inspect(onValue).inspectErr(onErr).tap(onValue).tapErr(onErr)).toBe(errResult);
+            expect(onErr).toHaveBeenCalledTimes(2);
+            expect(onErr).toHaveBeenCalledWith(errorObj);
+            expect(onValue).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("representation", () => {
+        test("should share the Ok Results of common constants", () => {
+            expect(Result.Ok(undefined)).toBe(Result.Ok(undefined));
+            expect(Result.Ok(true)).toBe(Result.Ok(true));
+            expect(Result.Ok(null)).not.toBe(Result.Ok(false));
+            expect(Result.Ok(undefined).clone()).not.toBe(Result.Ok(undefined));
+        });
+    });
 });
@@ -0,0 +1,156 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import { Readable } from "stream";
+import { Result } from "../index";
+
+const streamOf = <T>(chunks: T[]): ReadableStream<T> => new ReadableStream<T>({
+    start(controller) {
+        chunks.forEach(chunk => controller.enqueue(chunk));
+        controller.close();
+    },
+});
+
+const collect = async <T>(stream: ReadableStream<T>): Promise<T[]> => {
+    const chunks: T[] = [];
+    const reader = stream.getReader();
+    for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        chunks.push(next.value);
+    }
+    return chunks;
+};
+
+const parse = (chunk: string): Result<number, string> => {
+    const value = Number(chunk);
+    return Number.isNaN(value) ? Result.Err(`invalid ${chunk}`) : Result.Ok(value);
+};
+
+describe("fromCallback", () => {
+    test("should settle into Ok with the value passed to the callback", async () => {
+        const res = await Result.fromCallback<string>(cb => fs.readFile(__filename, "utf8", cb));
+        expect(res.unwrap()).toContain("fromCallback");
+    });
+
+    test("should settle into Err with the error passed to the callback", async () => {
+        const res = await Result.fromCallback<string, string | undefined>(
+            cb => fs.readFile(`${__filename}.missing`, "utf8", cb),
+            error => (error as NodeJS.ErrnoException).code
+        );
+        expect(res.unwrapErr()).toBe("ENOENT");
+    });
+
+    test("should map errors, including synchronous throws", async () => {
+        const res = await Result.fromCallback<number, string>(() => { throw new Error("sync"); }, error => (error as Error).message);
+        expect(res.unwrapErr()).toBe("sync");
+        const wrapped = await Result.fromCallback<number>(cb => cb("not an error"));
+        expect(wrapped.unwrapErr()).toBeInstanceOf(Error);
+    });
+});
+
+describe("toCallback", () => {
+    test("should call the callback asynchronously with the value or the error", async () => {
+        const okCallback = jest.fn();
+        Result.toCallback(Result.Ok(1), okCallback);
+        expect(okCallback).not.toHaveBeenCalled();
+        const errCallback = jest.fn();
+        Result.toCallback(Result.Err("boom").toAsync(), errCallback);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(okCallback).toHaveBeenCalledWith(null, 1);
+        expect(errCallback).toHaveBeenCalledWith("boom");
+    });
+
+    test("should pass a rejection as the error", async () => {
+        const callback = jest.fn();
+        Result.toCallback(Promise.reject(new Error("rejected")), callback);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(callback).toHaveBeenCalledWith(new Error("rejected"));
+    });
+
+    test("should round-trip through fromCallback", async () => {
+        const res = await Result.fromCallback<number>(cb => Result.toCallback(Result.Ok(42), cb));
+        expect(res.unwrap()).toBe(42);
+    });
+});
+
+describe("once", () => {
+    test("should settle on the success event and remove both listeners", async () => {
+        const emitter = new EventEmitter();
+        const res = Result.once<string>(emitter, "ready");
+        emitter.emit("ready", "up", "ignored");
+        expect((await res).unwrap()).toBe("up");
+        expect(emitter.listenerCount("ready")).toBe(0);
+        expect(emitter.listenerCount("error")).toBe(0);
+    });
+
+    test("should settle on the error event", async () => {
+        const emitter = new EventEmitter();
+        const res = Result.once<string, string>(emitter, "ready", "failed");
+        emitter.emit("failed", "down");
+        expect((await res).unwrapErr()).toBe("down");
+        expect(emitter.listenerCount("ready")).toBe(0);
+    });
+
+    test("should work with fs streams", async () => {
+        const res = await Result.once<number>(fs.createReadStream(`${__filename}.missing`), "open");
+        expect((res.unwrapErr() as NodeJS.ErrnoException).code).toBe("ENOENT");
+    });
+});
+
+describe("transformStream", () => {
+    test("should pass Ok values downstream and send errors to a callback", async () => {
+        const onErr = jest.fn<(err: string, chunk: string) => void>();
+        const output = streamOf(["1", "x", "3"]).pipeThrough(Result.transformStream(parse, onErr));
+        expect(await collect(output)).toEqual([1, 3]);
+        expect(onErr).toHaveBeenCalledWith("invalid x", "x");
+    });
+
+    test("should send errors to a WritableStream and close it", async () => {
+        const errors: string[] = [];
+        const close = jest.fn<() => void>();
+        const sink = new WritableStream<string>({ write: err => { errors.push(err); }, close });
+        const transform = Result.transformStream(async (chunk: string) => parse(chunk), sink);
+        const output = streamOf(["a", "2", "b"]).pipeThrough(transform);
+        expect(await collect(output)).toEqual([2]);
+        expect(errors).toEqual(["invalid a", "invalid b"]);
+        expect(close).toHaveBeenCalled();
+    });
+
+    test("should abort and unlock the sink, and cancel the source, if the function throws", async () => {
+        const abort = jest.fn<(reason: unknown) => void>();
+        const sink = new WritableStream<string>({ abort });
+        const cancel = jest.fn<(reason: unknown) => void>();
+        const source = new ReadableStream<string>({ pull: controller => controller.enqueue("1"), cancel });
+        const bug = new Error("bug");
+        const output = source.pipeThrough(Result.transformStream(() => {
+            throw bug;
+        }, sink));
+        await expect(collect(output)).rejects.toBe(bug);
+        expect(abort).toHaveBeenCalledWith(bug);
+        expect(sink.locked).toBe(false);
+        expect(cancel).toHaveBeenCalledWith(bug);
+    });
+
+    test("should abort and unlock the sink, and cancel the source, when cancelled", async () => {
+        const abort = jest.fn<(reason: unknown) => void>();
+        const sink = new WritableStream<string>({ abort });
+        const cancel = jest.fn<(reason: unknown) => void>();
+        const source = new ReadableStream<string>({ pull: controller => controller.enqueue("1"), cancel });
+        const reader = source.pipeThrough(Result.transformStream(parse, sink)).getReader();
+        expect(await reader.read()).toEqual({ done: false, value: 1 });
+        await reader.cancel("stop");
+        await new Promise(resolve => setImmediate(resolve));
+        expect(abort).toHaveBeenCalledWith("stop");
+        expect(sink.locked).toBe(false);
+        expect(cancel).toHaveBeenCalledWith("stop");
+    });
+
+    test("should interoperate with Node streams", async () => {
+        const source = Readable.toWeb(Readable.from(["4", "y", "5"])) as ReadableStream<string>;
+        const output = Readable.fromWeb(source.pipeThrough(Result.transformStream(parse, () => {})) as never, { objectMode: true });
+        const values: number[] = [];
+        for await (const value of output) {
+            values.push(value);
+        }
+        expect(values).toEqual([4, 5]);
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { AsyncResultIter, Result, ResultIter } from "../index";
+
+describe("iter", () => {
+    const ok = (value: number) => Result.Ok<number, string>(value);
+    const err = (error: string) => Result.Err<number, string>(error);
+
+    describe("Result.iter", () => {
+        test("should yield the value once for Ok", () => {
+            expect([...ok(1).iter()]).toEqual([1]);
+        });
+
+        test("should yield nothing for Err", () => {
+            expect([...err("boom").iter()]).toEqual([]);
+        });
+
+        test("should make the Result itself iterable", () => {
+            expect([...ok(1)]).toEqual([1]);
+            expect([...err("boom")]).toEqual([]);
+            const values: number[] = [];
+            for (const value of ok(2)) {
+                values.push(value);
+            }
+            expect(values).toEqual([2]);
+        });
+
+        test("should make the AsyncResult iterable with for await", async () => {
+            const values: number[] = [];
+            for await (const value of ok(3).toAsync()) {
+                values.push(value);
+            }
+            for await (const value of err("boom").toAsync()) {
+                values.push(value);
+            }
+            expect(values).toEqual([3]);
+        });
+    });
+
+    describe("ResultIter", () => {
+        function* source(pulled: jest.Mock) {
+            yield ok(1);
+            yield ok(2);
+            yield err("boom");
+            pulled();
+            yield ok(3);
+        }
+
+        test("should be iterable", () => {
+            expect([...ResultIter.from([ok(1), err("boom")])].map(result => result.toJSON())).toEqual([
+                { ok: true, value: 1 },
+                { ok: false, error: "boom" },
+            ]);
+        });
+
+        test("should map and filter Ok values lazily", () => {
+            const mapped = jest.fn((x: number) => x * 10);
+            const iter = ResultIter.from([ok(1), err("boom"), ok(2), ok(3)]).mapOk(mapped).filterOk(x => x !== 20);
+            expect(mapped).not.toHaveBeenCalled();
+            expect([...iter].map(result => result.toJSON())).toEqual([
+                { ok: true, value: 10 },
+                { ok: false, error: "boom" },
+                { ok: true, value: 30 },
+            ]);
+        });
+
+        test("should take Ok values until the first Err or failing predicate", () => {
+            const pulled = jest.fn();
+            expect(ResultIter.from(source(pulled)).takeWhileOk().collect().unwrap()).toEqual([1, 2]);
+            expect(ResultIter.from([ok(1), ok(5), ok(2)]).takeWhileOk(x => x < 3).collect().unwrap()).toEqual([1]);
+            expect(pulled).not.toHaveBeenCalled();
+        });
+
+        test("should fold until the first Err", () => {
+            const pulled = jest.fn();
+            expect(ResultIter.from([ok(1), ok(2), ok(3)]).tryFold(0, (acc, x) => ok(acc + x)).unwrap()).toBe(6);
+            expect(ResultIter.from(source(pulled)).tryFold(0, (acc, x) => ok(acc + x)).unwrapErr()).toBe("boom");
+            expect(ResultIter.from([ok(1), ok(2)]).tryFold(0, (acc, x) => x > 1 ? err("too big") : ok(acc + x)).unwrapErr()).toBe("too big");
+            expect(pulled).not.toHaveBeenCalled();
+        });
+
+        test("should call the callback for each value until the first Err", () => {
+            const seen: number[] = [];
+            const res = ResultIter.from([ok(1), ok(2), ok(3)]).tryForEach(x => {
+                seen.push(x);
+                return x === 2 ? err("stop") : undefined;
+            });
+            expect(res.unwrapErr()).toBe("stop");
+            expect(seen).toEqual([1, 2]);
+        });
+
+        test("should collect until the first Err", () => {
+            const pulled = jest.fn();
+            expect(ResultIter.from(source(pulled)).collect().unwrapErr()).toBe("boom");
+            expect(pulled).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("AsyncResultIter", () => {
+        async function* source(pulled: jest.Mock) {
+            yield ok(1);
+            yield ok(2);
+            yield err("boom");
+            pulled();
+            yield ok(3);
+        }
+
+        test("should be created from async iterables and iterables of promises", async () => {
+            const seen: number[] = [];
+            for await (const result of ResultIter.fromAsync([Promise.resolve(ok(1)), ok(2)])) {
+                seen.push(result.unwrap());
+            }
+            expect(seen).toEqual([1, 2]);
+        });
+
+        test("should map, filter and take with async callbacks", async () => {
+            const pulled = jest.fn();
+            const res = await AsyncResultIter.from(source(pulled))
+                .mapOk(async x => x * 10)
+                .filterOk(async x => x > 10)
+                .takeWhileOk()
+                .collect();
+            expect(res.unwrap()).toEqual([20]);
+            expect(pulled).not.toHaveBeenCalled();
+        });
+
+        test("should fold and call callbacks until the first Err", async () => {
+            const pulled = jest.fn();
+            expect((await AsyncResultIter.from([ok(1), ok(2)]).tryFold(0, async (acc, x) => ok(acc + x))).unwrap()).toBe(3);
+            expect((await AsyncResultIter.from(source(pulled)).tryFold(0, (acc, x) => ok(acc + x))).unwrapErr()).toBe("boom");
+            const seen: number[] = [];
+            const res = await AsyncResultIter.from([ok(1), ok(2)]).tryForEach(async x => { seen.push(x); });
+            expect(res.isOk()).toBe(true);
+            expect(seen).toEqual([1, 2]);
+            expect(pulled).not.toHaveBeenCalled();
+        });
+    });
+});
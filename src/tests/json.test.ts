@@ -0,0 +1,73 @@
+import { describe, expect, test } from "@jest/globals";
+import { Result, ResultParseError } from "../index";
+
+describe("JSON", () => {
+    const isNumber = (value: unknown): value is number => typeof value === "number";
+    const isCode = (value: unknown): Result<{ code: string }, string> =>
+        typeof value === "object" && value !== null && typeof (value as { code?: unknown }).code === "string"
+            ? Result.Ok(value as { code: string })
+            : Result.Err("missing code");
+
+    describe("toJSON", () => {
+        test("should serialize Ok into the stable shape", () => {
+            expect(JSON.stringify(Result.Ok(42))).toBe('{"ok":true,"value":42}');
+        });
+
+        test("should serialize Err into the stable shape", () => {
+            expect(JSON.stringify(Result.Err({ code: "E1" }))).toBe('{"ok":false,"error":{"code":"E1"}}');
+        });
+
+        test("should serialize nested Results", () => {
+            expect(JSON.stringify(Result.Ok(Result.Err("inner")))).toBe('{"ok":true,"value":{"ok":false,"error":"inner"}}');
+        });
+    });
+
+    describe("fromJSON", () => {
+        test("should round-trip Ok and Err through a JSON string", () => {
+            expect(Result.fromJSON<number, string>(JSON.stringify(Result.Ok(42))).unwrap()).toBe(42);
+            expect(Result.fromJSON<number, string>(JSON.stringify(Result.Err("bad"))).unwrapErr()).toBe("bad");
+        });
+
+        test("should round-trip an undefined value or error", () => {
+            expect(JSON.stringify(Result.Err(undefined))).toBe('{"ok":false}');
+            const err = Result.fromJSON<number, undefined>(JSON.stringify(Result.Err(undefined)));
+            expect(err.isErr()).toBe(true);
+            expect(err.unwrapErr()).toBeUndefined();
+            const ok = Result.fromJSON<undefined, string>(JSON.stringify(Result.Ok(undefined)));
+            expect(ok.isOk()).toBe(true);
+            expect(ok.unwrap()).toBeUndefined();
+        });
+
+        test("should accept already parsed payloads", () => {
+            expect(Result.fromJSON({ ok: true, value: [1, 2] }).unwrap()).toEqual([1, 2]);
+            expect(Result.fromJSON({ ok: true }).unwrap()).toBeUndefined();
+        });
+
+        test("should return a ResultParseError for invalid JSON", () => {
+            const err = Result.fromJSON("{not json").unwrapErr();
+            expect(err).toBeInstanceOf(ResultParseError);
+            expect((err as ResultParseError).message).toBe("Invalid JSON");
+            expect((err as ResultParseError).cause).toBeInstanceOf(SyntaxError);
+        });
+
+        test("should return a ResultParseError for malformed payloads", () => {
+            expect(Result.fromJSON(null).unwrapErr()).toBeInstanceOf(ResultParseError);
+            expect(Result.fromJSON({ value: 1 }).unwrapErr()).toBeInstanceOf(ResultParseError);
+            expect(Result.fromJSON('{"ok":"yes"}').unwrapErr()).toBeInstanceOf(ResultParseError);
+        });
+
+        test("should validate the Ok value with a type guard", () => {
+            expect(Result.fromJSON({ ok: true, value: 1 }, { validateOk: isNumber }).unwrap()).toBe(1);
+            const err = Result.fromJSON({ ok: true, value: "1" }, { validateOk: isNumber }).unwrapErr();
+            expect(err).toEqual(new ResultParseError("Invalid Ok value"));
+        });
+
+        test("should validate the Err error with a Result-returning validator", () => {
+            expect(Result.fromJSON({ ok: false, error: { code: "E1" } }, { validateErr: isCode }).unwrapErr()).toEqual({ code: "E1" });
+            const err = Result.fromJSON({ ok: false, error: "E1" }, { validateErr: isCode }).unwrapErr() as ResultParseError;
+            expect(err).toBeInstanceOf(ResultParseError);
+            expect(err.message).toBe("Invalid Err error");
+            expect(err.cause).toBe("missing code");
+        });
+    });
+});
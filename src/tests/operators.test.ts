@@ -0,0 +1,147 @@
+import { describe, expect, jest, test } from "@jest/globals";
+import { ContextError, Option, Result, UnwrapError } from "../index";
+import * as R from "../operators";
+import { flow, pipe } from "../operators";
+
+interface NotFound {
+    _tag: "NotFound",
+    id: number
+}
+
+interface Forbidden {
+    _tag: "Forbidden"
+}
+
+const parse = (input: string): Result<number, string> =>
+    Number.isNaN(Number(input)) ? Result.Err(`Invalid number: ${input}`) : Result.Ok(Number(input));
+
+const find = (id: number): Result<string, NotFound | Forbidden> =>
+    id === 0 ? Result.Err({ _tag: "Forbidden" }) : id > 10 ? Result.Err({ _tag: "NotFound", id }) : Result.Ok(`user ${id}`);
+
+/**
+ * A custom operator, defined in terms of the built-in ones.
+ */
+const orNotFound = <T>(fallback: T) => R.catchTag<NotFound | Forbidden, "NotFound", T, never>("NotFound", () => Result.Ok(fallback));
+
+describe("operators", () => {
+    describe("pipe", () => {
+        test("should apply every function in order", () => {
+            expect(pipe(1)).toBe(1);
+            expect(pipe(1, x => x + 1, x => x * 2, String)).toBe("4");
+        });
+
+        test("should infer the types across the steps", () => {
+            const res: Result<string, string | NotFound | Forbidden> = pipe(
+                "3",
+                parse,
+                R.map(x => x * 2),
+                R.andThen(find),
+                R.mapErr(err => err)
+            );
+            expect(res.unwrap()).toBe("user 6");
+        });
+
+        test("should infer the types across 20 steps", () => {
+            const inc = (x: number) => x + 1;
+            const res: number = pipe(
+                Result.Ok<number, string>(0),
+                R.map(inc), R.map(inc), R.map(inc), R.map(inc), R.map(inc),
+                R.map(inc), R.map(inc), R.map(inc), R.map(inc), R.map(inc),
+                R.map(inc), R.map(inc), R.map(inc), R.map(inc), R.map(inc),
+                R.map(inc), R.map(inc), R.map(inc), R.map(x => x + 1),
+                R.unwrapOr(-1)
+            );
+            expect(res).toBe(19);
+        });
+    });
+
+    describe("flow", () => {
+        test("should compose the functions", () => {
+            const parseAndFind = flow(parse, R.andThen(find), R.map(name => name.toUpperCase()), R.unwrapOr("nobody"));
+            expect(parseAndFind("3")).toBe("USER 3");
+            expect(parseAndFind("x")).toBe("nobody");
+        });
+
+        test("should pass every argument to the first function", () => {
+            const add = flow((a: number, b: number) => Result.Ok<number, string>(a + b), R.map(sum => sum * 10));
+            expect(add(1, 2).unwrap()).toBe(30);
+        });
+    });
+
+    describe("curried methods", () => {
+        test("should unwrap", () => {
+            expect(R.unwrap(Result.Ok(1))).toBe(1);
+            expect(R.unwrapErr(Result.Err("a"))).toBe("a");
+            expect(pipe(Result.Err<number, string>("a"), R.unwrapOr(2))).toBe(2);
+            expect(pipe(Result.Err<number, string>("abc"), R.unwrapOrElse(err => err.length))).toBe(3);
+            expect(() => pipe(Result.Err<number, string>("a"), R.expect("loading"))).toThrow(UnwrapError);
+            expect(pipe(Result.Err<number, string>("a"), R.expectErr("loading"))).toBe("a");
+        });
+
+        test("should narrow with isOk and isErr", () => {
+            const res = parse("1");
+            if (R.isOk(res)) {
+                expect(res.value).toBe(1);
+            }
+            expect([parse("x"), parse("2")].filter(R.isErr).map(failed => failed.error)).toEqual(["Invalid number: x"]);
+            expect(pipe(parse("2"), R.isOkAnd(x => x > 1))).toBe(true);
+            expect(pipe(parse("x"), R.isErrAnd(err => err.startsWith("Invalid")))).toBe(true);
+        });
+
+        test("should widen the error type of combinators", () => {
+            const fallback: Result<string | number, boolean> = pipe(parse("x"), R.orElse(() => Result.Err<never, boolean>(false)), R.or(Result.Ok("none")));
+            expect(fallback.unwrap()).toBe("none");
+            const both: Result<string, string | boolean> = pipe(parse("1"), R.and(Result.Ok<string, boolean>("next")));
+            expect(both.unwrap()).toBe("next");
+        });
+
+        test("should match the variants and the error tags", () => {
+            expect(pipe(parse("1"), R.match({ Ok: x => `ok ${x}`, Err: err => err }))).toBe("ok 1");
+            const describeUser = R.matchErr<string, NotFound | Forbidden, string>({ Ok: name => name, NotFound: err => `missing ${err.id}`, Forbidden: () => "forbidden" });
+            expect(pipe(find(11), describeUser)).toBe("missing 11");
+            expect(pipe(find(0), R.mapOr("?", name => name))).toBe("?");
+            expect(pipe(find(1), R.mapOrElse(err => err._tag, name => name))).toBe("user 1");
+        });
+
+        test("should compose custom operators with the built-in ones", () => {
+            const res: Result<string, Forbidden> = pipe(find(11), orNotFound("guest"));
+            expect(res.unwrap()).toBe("guest");
+            expect(pipe(find(0), orNotFound("guest"), R.unwrapErr)).toEqual({ _tag: "Forbidden" });
+        });
+
+        test("should inspect and add context", () => {
+            const onValue = jest.fn<(value: number) => void>();
+            const onErr = jest.fn<(err: string) => void>();
+            pipe(parse("1"), R.inspect(onValue), R.tap(onValue), R.inspectErr(onErr), R.tapErr(onErr));
+            expect(onValue).toHaveBeenCalledTimes(2);
+            expect(onErr).not.toHaveBeenCalled();
+            const err = pipe(parse("x"), R.context("parsing"), R.unwrapErr);
+            expect(err).toBeInstanceOf(ContextError);
+            expect(pipe(parse("x"), R.withContext(e => `while ${e}`), R.unwrapErr).message).toBe("while Invalid number: x");
+        });
+
+        test("should convert", () => {
+            expect(pipe(parse("1"), R.ok)).toBe(1);
+            expect(pipe(parse("x"), R.err)).toBe("Invalid number: x");
+            expect(pipe(parse("1"), R.okOption, option => option.unwrap())).toBe(1);
+            expect(pipe(parse("x"), R.errOption, option => option.isSome())).toBe(true);
+            expect(pipe(Result.Ok(Option.Some(1)), R.transpose, option => option.unwrap().unwrap())).toBe(1);
+            expect(pipe(parse("1"), R.toJSON)).toEqual({ ok: true, value: 1 });
+            expect(pipe(parse("1"), R.toUnion)).toEqual({ type: "Ok", value: 1 });
+            expect(pipe(parse("1"), R.toString)).toBe("Ok(1)");
+            expect([...pipe(parse("1"), R.iter)]).toEqual([1]);
+            expect(pipe(parse("x"), R.toValidated, validated => validated.isInvalid())).toBe(true);
+            expect(pipe(parse("1"), R.unwrapUnchecked)).toBe(1);
+            expect(pipe(parse("1"), R.unwrapErrUnchecked)).toBeUndefined();
+        });
+
+        test("should compare, hash and clone", async () => {
+            expect(pipe(parse("1"), R.equals(Result.Ok(1)))).toBe(true);
+            expect(pipe(parse("1"), R.hash)).toBe(Result.Ok(1).hash());
+            const value = { nested: [1] };
+            const original = Result.Ok<{ nested: number[] }, string>(value);
+            expect(pipe(original, R.clone(true), R.unwrap)).not.toBe(value);
+            expect((await pipe(parse("1"), R.toAsync)).unwrap()).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,290 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { Option, Result } from "../index";
+
+describe("Option", () => {
+    const someValue = 42;
+    const newValue = 100;
+    const errorObj = new Error("Test error");
+
+    const addOne = (x: number): number => x + 1;
+
+    const someOption = Option.Some<number>(someValue);
+    const noneOption = Option.None<number>();
+
+    describe("from", () => {
+        test("should return Some for a present value", () => {
+            expect(Option.from(0).unwrap()).toBe(0);
+        });
+
+        test("should return None for null and undefined", () => {
+            expect(Option.from(null).isNone()).toBe(true);
+            expect(Option.from(undefined).isNone()).toBe(true);
+        });
+    });
+
+    describe("isSome / isNone", () => {
+        test("should report variant for Some", () => {
+            expect(someOption.isSome()).toBe(true);
+            expect(someOption.isNone()).toBe(false);
+        });
+
+        test("should report variant for None", () => {
+            expect(noneOption.isSome()).toBe(false);
+            expect(noneOption.isNone()).toBe(true);
+        });
+    });
+
+    describe("isSomeAnd", () => {
+        test("should test the predicate for Some", () => {
+            expect(someOption.isSomeAnd(x => x === someValue)).toBe(true);
+            expect(someOption.isSomeAnd(x => x !== someValue)).toBe(false);
+        });
+
+        test("should return false for None regardless of predicate", () => {
+            expect(noneOption.isSomeAnd(() => true)).toBe(false);
+        });
+    });
+
+    describe("isNoneOr", () => {
+        test("should test the predicate for Some", () => {
+            expect(someOption.isNoneOr(x => x === someValue)).toBe(true);
+            expect(someOption.isNoneOr(x => x !== someValue)).toBe(false);
+        });
+
+        test("should return true for None regardless of predicate", () => {
+            expect(noneOption.isNoneOr(() => false)).toBe(true);
+        });
+    });
+
+    describe("unwrap", () => {
+        test("should return value for Some", () => {
+            expect(someOption.unwrap()).toBe(someValue);
+        });
+
+        test("should throw error for None", () => {
+            expect(() => noneOption.unwrap()).toThrow("Called Option.unwrap() on a None value");
+        });
+    });
+
+    describe("expect", () => {
+        test("should return value for Some", () => {
+            expect(someOption.expect("missing")).toBe(someValue);
+        });
+
+        test("should throw error with custom message for None", () => {
+            expect(() => noneOption.expect("missing")).toThrow("missing");
+        });
+    });
+
+    describe("unwrapOr / unwrapOrElse", () => {
+        test("should return contained value for Some", () => {
+            const op = jest.fn(() => newValue);
+            expect(someOption.unwrapOr(newValue)).toBe(someValue);
+            expect(someOption.unwrapOrElse(op)).toBe(someValue);
+            expect(op).not.toHaveBeenCalled();
+        });
+
+        test("should return fallback value for None", () => {
+            expect(noneOption.unwrapOr(newValue)).toBe(newValue);
+            expect(noneOption.unwrapOrElse(() => newValue)).toBe(newValue);
+        });
+    });
+
+    describe("unwrapUnchecked", () => {
+        test("should return undefined for None (unchecked)", () => {
+            expect(noneOption.unwrapUnchecked()).toBeUndefined();
+        });
+    });
+
+    describe("map / mapOr / mapOrElse", () => {
+        test("should transform the value when Some", () => {
+            expect(someOption.map(addOne).unwrap()).toBe(someValue + 1);
+            expect(someOption.mapOr(newValue, addOne)).toBe(someValue + 1);
+            expect(someOption.mapOrElse(() => newValue, addOne)).toBe(someValue + 1);
+        });
+
+        test("should preserve None or use defaults when None", () => {
+            expect(noneOption.map(addOne)).toEqual(noneOption);
+            expect(noneOption.mapOr(newValue, addOne)).toBe(newValue);
+            expect(noneOption.mapOrElse(() => newValue, addOne)).toBe(newValue);
+        });
+    });
+
+    describe("and / andThen", () => {
+        const other = Option.Some<string>("other");
+        test("should continue with other Option when Some", () => {
+            expect(someOption.and(other)).toEqual(other);
+            expect(someOption.andThen(x => Option.Some(x * 2)).unwrap()).toBe(someValue * 2);
+        });
+
+        test("should short-circuit when None", () => {
+            const op = jest.fn(() => other);
+            expect(noneOption.and(other).isNone()).toBe(true);
+            expect(noneOption.andThen(op).isNone()).toBe(true);
+            expect(op).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("filter", () => {
+        test("should keep Some when predicate passes", () => {
+            expect(someOption.filter(x => x > 0)).toEqual(someOption);
+        });
+
+        test("should return None when predicate fails or when None", () => {
+            expect(someOption.filter(x => x < 0).isNone()).toBe(true);
+            expect(noneOption.filter(() => true).isNone()).toBe(true);
+        });
+    });
+
+    describe("or / orElse / xor", () => {
+        const alternative = Option.Some<number>(newValue);
+        test("should return a copy of self when Some", () => {
+            expect(someOption.or(alternative)).toEqual(someOption);
+            expect(someOption.orElse(() => alternative)).toEqual(someOption);
+        });
+
+        test("should return alternative when None", () => {
+            expect(noneOption.or(alternative)).toEqual(alternative);
+            expect(noneOption.orElse(() => alternative)).toEqual(alternative);
+        });
+
+        test("should return Some only when exactly one is Some", () => {
+            expect(someOption.xor(noneOption)).toEqual(someOption);
+            expect(noneOption.xor(alternative)).toEqual(alternative);
+            expect(someOption.xor(alternative).isNone()).toBe(true);
+            expect(noneOption.xor(noneOption).isNone()).toBe(true);
+        });
+    });
+
+    describe("zip / zipWith / unzip", () => {
+        test("should combine values when both are Some", () => {
+            expect(someOption.zip(Option.Some("a")).unwrap()).toEqual([someValue, "a"]);
+            expect(someOption.zipWith(Option.Some(1), (a, b) => a + b).unwrap()).toBe(someValue + 1);
+        });
+
+        test("should return None when either is None", () => {
+            expect(someOption.zip(Option.None<string>()).isNone()).toBe(true);
+            expect(noneOption.zip(Option.Some("a")).isNone()).toBe(true);
+        });
+
+        test("should split a zipped Option", () => {
+            const [a, b] = Option.Some<[number, string]>([1, "a"]).unzip();
+            expect(a.unwrap()).toBe(1);
+            expect(b.unwrap()).toBe("a");
+            const [c, d] = Option.None<[number, string]>().unzip();
+            expect(c.isNone() && d.isNone()).toBe(true);
+        });
+    });
+
+    describe("flatten", () => {
+        test("should remove one level of nesting", () => {
+            expect(Option.Some(Option.Some(1)).flatten().unwrap()).toBe(1);
+            expect(Option.Some(Option.None<number>()).flatten().isNone()).toBe(true);
+            expect(Option.None<Option<number>>().flatten().isNone()).toBe(true);
+        });
+    });
+
+    describe("take / takeIf / replace", () => {
+        test("should move the value out and leave None", () => {
+            const opt = Option.Some(1);
+            expect(opt.take().unwrap()).toBe(1);
+            expect(opt.isNone()).toBe(true);
+        });
+
+        test("should only take when the predicate passes", () => {
+            const opt = Option.Some(1);
+            expect(opt.takeIf(x => x > 1).isNone()).toBe(true);
+            expect(opt.isSome()).toBe(true);
+            expect(opt.takeIf(x => x === 1).unwrap()).toBe(1);
+            expect(opt.isNone()).toBe(true);
+        });
+
+        test("should replace the value and return the previous one", () => {
+            const opt = Option.None<number>();
+            expect(opt.replace(1).isNone()).toBe(true);
+            expect(opt.replace(2).unwrap()).toBe(1);
+            expect(opt.unwrap()).toBe(2);
+        });
+
+        test("should not change the Options that combinators were called on or given", () => {
+            const some = Option.Some(1);
+            some.filter(() => true).take();
+            some.or(Option.Some(2)).take();
+            some.orElse(() => Option.Some(2)).take();
+            some.xor(Option.None()).take();
+            expect(some.unwrap()).toBe(1);
+
+            const none = Option.None<number>();
+            none.map(addOne).replace(5);
+            none.and(Option.Some(1)).replace(5);
+            none.andThen(() => Option.Some(1)).replace(5);
+            none.filter(() => true).getOrInsert(5);
+            expect(none.isNone()).toBe(true);
+
+            const other = Option.Some(2);
+            none.or(other).take();
+            none.xor(other).take();
+            none.orElse(() => other).take();
+            some.and(other).take();
+            some.andThen(() => other).take();
+            Option.Some(other).flatten().take();
+            expect(other.unwrap()).toBe(2);
+        });
+    });
+
+    describe("getOrInsert / getOrInsertWith", () => {
+        test("should keep the contained value when Some", () => {
+            const op = jest.fn(() => newValue);
+            const opt = Option.Some(1);
+            expect(opt.getOrInsert(newValue)).toBe(1);
+            expect(opt.getOrInsertWith(op)).toBe(1);
+            expect(op).not.toHaveBeenCalled();
+        });
+
+        test("should store the value when None", () => {
+            const opt = Option.None<number>();
+            expect(opt.getOrInsertWith(() => newValue)).toBe(newValue);
+            expect(opt.unwrap()).toBe(newValue);
+        });
+    });
+
+    describe("okOr / okOrElse", () => {
+        test("should map Some to Ok", () => {
+            expect(someOption.okOr(errorObj).unwrap()).toBe(someValue);
+            expect(someOption.okOrElse(() => errorObj).unwrap()).toBe(someValue);
+        });
+
+        test("should map None to Err", () => {
+            expect(noneOption.okOr(errorObj).unwrapErr()).toBe(errorObj);
+            expect(noneOption.okOrElse(() => errorObj).unwrapErr()).toBe(errorObj);
+        });
+    });
+
+    describe("transpose", () => {
+        test("should map None to Ok(None)", () => {
+            expect(Option.None<Result<number, Error>>().transpose().unwrap().isNone()).toBe(true);
+        });
+
+        test("should map Some(Ok) to Ok(Some)", () => {
+            const res = Option.Some(Result.Ok<number, Error>(someValue)).transpose();
+            expect(res.unwrap().unwrap()).toBe(someValue);
+        });
+
+        test("should map Some(Err) to Err", () => {
+            const res = Option.Some(Result.Err<number, Error>(errorObj)).transpose();
+            expect(res.unwrapErr()).toBe(errorObj);
+        });
+
+        test("should round-trip through Result.transpose", () => {
+            const opt = Option.Some(Result.Ok<number, Error>(someValue));
+            expect(opt.transpose().transpose().unwrap().unwrap()).toBe(someValue);
+        });
+    });
+
+    describe("toNullable", () => {
+        test("should return the value or null", () => {
+            expect(someOption.toNullable()).toBe(someValue);
+            expect(noneOption.toNullable()).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from "@jest/globals";
+import { AbortError, ParallelProgress, ParallelTask, Result } from "../index";
+
+/**
+ * A task which settles into the given Result after the given delay, recording when it starts and whether it was aborted.
+ */
+const delayed = <T, E>(ms: number, result: Result<T, E>, log: string[] = []): ParallelTask<T, E> => signal => new Promise(resolve => {
+    log.push(`start ${ms}`);
+    const handle = setTimeout(() => resolve(result), ms);
+    signal.addEventListener("abort", () => {
+        clearTimeout(handle);
+        log.push(`abort ${ms}`);
+    });
+});
+
+describe("parallel", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test("should run every task and keep the order of the values", async () => {
+        const res = Result.parallel([delayed(300, Result.Ok(1)), delayed(100, Result.Ok(2)), delayed(200, Result.Ok(3))]);
+        await jest.advanceTimersByTimeAsync(300);
+        expect((await res).unwrap()).toEqual([1, 2, 3]);
+    });
+
+    test("should preserve the types of tuples", async () => {
+        const res = Result.parallel([delayed(10, Result.Ok<number, string>(1)), delayed(10, Result.Ok<string, boolean>("a"))]);
+        await jest.advanceTimersByTimeAsync(10);
+        const [count, name]: [number, string] = (await res).unwrap();
+        expect([count, name]).toEqual([1, "a"]);
+        const errors: (string | boolean)[] | undefined = (await res).error;
+        expect(errors).toBeUndefined();
+    });
+
+    test("should never run more tasks than the concurrency", async () => {
+        const log: string[] = [];
+        const res = Result.parallel([100, 200, 300, 400].map(ms => delayed(ms, Result.Ok(ms), log)), { concurrency: 2 });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(log).toEqual(["start 100", "start 200"]);
+        await jest.advanceTimersByTimeAsync(100);
+        expect(log).toEqual(["start 100", "start 200", "start 300"]);
+        await jest.advanceTimersByTimeAsync(100);
+        expect(log).toEqual(["start 100", "start 200", "start 300", "start 400"]);
+        await jest.advanceTimersByTimeAsync(500);
+        expect((await res).unwrap()).toEqual([100, 200, 300, 400]);
+    });
+
+    test("should collect every error in order without failFast", async () => {
+        const res = Result.parallel([delayed(200, Result.Err<number, string>("a")), delayed(100, Result.Ok<number, string>(1)), delayed(50, Result.Err<number, string>("b"))]);
+        await jest.advanceTimersByTimeAsync(200);
+        expect((await res).unwrapErr()).toEqual(["a", "b"]);
+    });
+
+    test("should settle into the first error and abort the other tasks with failFast", async () => {
+        const log: string[] = [];
+        const tasks = [delayed(300, Result.Ok<number, string>(1), log), delayed(100, Result.Err<number, string>("failed"), log), delayed(200, Result.Ok<number, string>(2), log), delayed(50, Result.Ok<number, string>(3), log)];
+        const res = Result.parallel(tasks, { concurrency: 3, failFast: true });
+        await jest.advanceTimersByTimeAsync(100);
+        const err: string = (await res).unwrapErr();
+        expect(err).toBe("failed");
+        expect(log).toEqual(["start 300", "start 100", "start 200", "abort 300", "abort 100", "abort 200"]);
+    });
+
+    test("should abort the tasks with an AbortError caused by the first error", async () => {
+        let reason: unknown;
+        const waiting: ParallelTask<number, string> = signal => new Promise(resolve => {
+            signal.addEventListener("abort", () => {
+                reason = signal.reason;
+                resolve(Result.Ok(0));
+            });
+        });
+        const res = Result.parallel([waiting, delayed(10, Result.Err<number, string>("failed"))], { failFast: true });
+        await jest.advanceTimersByTimeAsync(10);
+        await res;
+        expect(reason).toBeInstanceOf(AbortError);
+        expect((reason as AbortError).cause).toBe("failed");
+    });
+
+    test("should report the progress", async () => {
+        const progress: ParallelProgress[] = [];
+        const res = Result.parallel([delayed(100, Result.Ok(1)), delayed(200, Result.Err("a"))], { onProgress: state => progress.push(state) });
+        await jest.advanceTimersByTimeAsync(200);
+        await res;
+        expect(progress).toEqual([{ completed: 1, failed: 0, total: 2 }, { completed: 2, failed: 1, total: 2 }]);
+    });
+
+    test("should settle into Ok for no tasks", async () => {
+        expect((await Result.parallel([])).unwrap()).toEqual([]);
+    });
+
+    test("should reject if a task throws", async () => {
+        const res = Result.parallel([delayed(100, Result.Ok(1)), () => {
+            throw new Error("boom");
+        }]);
+        await expect(res.then(r => r.unwrap())).rejects.toThrow("boom");
+    });
+
+    test("should stop, abort the running tasks and reject if the progress callback throws", async () => {
+        const log: string[] = [];
+        const tasks = [delayed(100, Result.Ok(1), log), delayed(200, Result.Ok(2), log), delayed(300, Result.Ok(3), log)];
+        const res = Result.parallel(tasks, {
+            concurrency: 2,
+            onProgress: () => {
+                throw new Error("progress failed");
+            },
+        });
+        const rejected = expect(res.then(r => r.unwrap())).rejects.toThrow("progress failed");
+        await jest.advanceTimersByTimeAsync(300);
+        await rejected;
+        expect(log).toEqual(["start 100", "start 200", "abort 100", "abort 200"]);
+    });
+
+    test("should throw for a concurrency below 1", () => {
+        expect(() => Result.parallel([], { concurrency: 0 })).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, test } from "@jest/globals";
+import { ReleaseError, Result } from "../index";
+
+class FakeConnection {
+    closed = false;
+    failClose = false;
+
+    close(): Result<void, string> {
+        this.closed = true;
+        return this.failClose ? Result.Err("close failed") : Result.Ok(undefined);
+    }
+}
+
+class FakeHandle implements AsyncDisposable {
+    disposed = 0;
+
+    async [Symbol.asyncDispose](): Promise<void> {
+        this.disposed++;
+    }
+}
+
+class FakeLock implements Disposable {
+    released = false;
+
+    [Symbol.dispose](): void {
+        if (this.released) {
+            throw new Error("already released");
+        }
+        this.released = true;
+    }
+}
+
+describe("resources", () => {
+    describe("bracket", () => {
+        test("should release the resource after an Ok body", async () => {
+            const conn = new FakeConnection();
+            const res = await Result.bracket(() => Result.Ok(conn), c => Result.Ok(c.closed), c => c.close());
+            expect(res.unwrap()).toBe(false);
+            expect(conn.closed).toBe(true);
+        });
+
+        test("should release the resource after an Err body", async () => {
+            const conn = new FakeConnection();
+            const res = await Result.bracket(() => Result.Ok(conn), async () => Result.Err("query failed"), c => c.close());
+            expect(res.unwrapErr()).toBe("query failed");
+            expect(conn.closed).toBe(true);
+        });
+
+        test("should release the resource and rethrow if the body throws", async () => {
+            const conn = new FakeConnection();
+            const res = Result.bracket(() => Result.Ok(conn), (): Result<number, string> => {
+                throw new Error("bug");
+            }, c => c.close());
+            await expect(res.then(r => r.unwrap())).rejects.toThrow("bug");
+            expect(conn.closed).toBe(true);
+        });
+
+        test("should not use or release anything if the acquisition fails", async () => {
+            let used = false;
+            let released = false;
+            const res = await Result.bracket(() => Result.fromPromise(Promise.reject(new Error("refused"))), () => {
+                used = true;
+                return Result.Ok<number, Error>(1);
+            }, () => {
+                released = true;
+            });
+            expect(res.unwrapErr().message).toBe("refused");
+            expect(used).toBe(false);
+            expect(released).toBe(false);
+        });
+
+        test("should return the error of the release after an Ok body", async () => {
+            const conn = new FakeConnection();
+            conn.failClose = true;
+            const res = await Result.bracket(() => Result.Ok(conn), () => Result.Ok(1), c => c.close());
+            expect(res.unwrapErr()).toBe("close failed");
+        });
+
+        test("should combine the errors of the body and the release", async () => {
+            const conn = new FakeConnection();
+            conn.failClose = true;
+            const err = (await Result.bracket(() => Result.Ok(conn), () => Result.Err("query failed"), c => c.close())).unwrapErr();
+            expect(err).toBeInstanceOf(ReleaseError);
+            expect(err).toMatchObject({ _tag: "ReleaseError", error: "query failed", suppressed: "close failed", cause: "query failed" });
+        });
+
+        test("should combine an exception of the body with the error of the release", async () => {
+            const conn = new FakeConnection();
+            conn.failClose = true;
+            const res = Result.bracket(() => Result.Ok(conn), (): Result<number, string> => {
+                throw new Error("bug");
+            }, c => c.close());
+            await expect(res.then(r => r.unwrap())).rejects.toBeInstanceOf(ReleaseError);
+        });
+
+        test("should keep both exceptions if the body and the release throw", async () => {
+            const bug = new Error("bug");
+            const closing = new Error("close threw");
+            const res = Result.bracket(() => Result.Ok(new FakeConnection()), (): Result<number, string> => {
+                throw bug;
+            }, () => {
+                throw closing;
+            });
+            const error = await res.then(() => undefined, (thrown: unknown) => thrown);
+            expect(error).toBeInstanceOf(ReleaseError);
+            expect(error).toMatchObject({ error: bug, suppressed: closing, cause: bug });
+        });
+
+        test("should keep the error of the body if the release throws", async () => {
+            const closing = new Error("close threw");
+            const res = Result.bracket(() => Result.Ok(new FakeConnection()), () => Result.Err("query failed"), () => {
+                throw closing;
+            });
+            const error = await res.then(() => undefined, (thrown: unknown) => thrown);
+            expect(error).toMatchObject({ _tag: "ReleaseError", error: "query failed", suppressed: closing });
+        });
+    });
+
+    describe("using", () => {
+        test("should dispose asynchronous and synchronous resources", async () => {
+            const handle = new FakeHandle();
+            const lock = new FakeLock();
+            expect((await Result.using(() => Result.Ok(handle), () => Result.Ok("done"))).unwrap()).toBe("done");
+            expect((await Result.using(() => Result.Ok(lock), () => Result.Err("failed"))).unwrapErr()).toBe("failed");
+            expect(handle.disposed).toBe(1);
+            expect(lock.released).toBe(true);
+        });
+
+        test("should map exceptions thrown by the disposal", async () => {
+            const lock = new FakeLock();
+            lock.released = true;
+            const err = (await Result.using(() => Result.Ok(lock), () => Result.Err("failed"), error => (error as Error).message)).unwrapErr();
+            expect(err).toMatchObject({ error: "failed", suppressed: "already released" });
+        });
+    });
+
+    describe("using declarations", () => {
+        test("should dispose the value of an Ok Result at the end of the scope", async () => {
+            const lock = new FakeLock();
+            const handle = new FakeHandle();
+            {
+                using res = Result.Ok<FakeLock, string>(lock);
+                expect(res.unwrap().released).toBe(false);
+            }
+            {
+                await using res = Result.Ok<FakeHandle, string>(handle);
+                expect(res.isOk()).toBe(true);
+            }
+            expect(lock.released).toBe(true);
+            expect(handle.disposed).toBe(1);
+        });
+
+        test("should define the disposal methods under symbols, even on runtimes without Symbol.dispose", () => {
+            const disposeKey = Symbol.dispose ?? Symbol.for("Symbol.dispose");
+            const asyncDisposeKey = Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose");
+            expect(Object.getOwnPropertyNames(Result.prototype)).not.toContain("undefined");
+            expect(Object.getOwnPropertySymbols(Result.prototype)).toEqual(expect.arrayContaining([disposeKey, asyncDisposeKey]));
+        });
+
+        test("should ignore Err Results and values which are not disposable", async () => {
+            const lock = new FakeLock();
+            {
+                using res = Result.Err<number, FakeLock>(lock);
+                await using other = Result.Ok<number, string>(1);
+                expect(res.isErr() && other.isOk()).toBe(true);
+            }
+            expect(lock.released).toBe(false);
+        });
+    });
+});
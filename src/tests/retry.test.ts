@@ -0,0 +1,204 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { AbortError, AsyncResult, Clock, Result, RetryError, TimeoutError } from "../index";
+
+/**
+ * A Clock whose timers only fire when advanced, recording every scheduled delay.
+ */
+class FakeClock implements Clock {
+    now = 0;
+    delays: number[] = [];
+    private timers = new Map<number, { at: number, callback: () => void }>();
+    private nextId = 0;
+
+    setTimeout(callback: () => void, ms: number): unknown {
+        const id = this.nextId++;
+        this.delays.push(ms);
+        this.timers.set(id, { at: this.now + ms, callback });
+        return id;
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    async advance(ms: number): Promise<void> {
+        this.now += ms;
+        for (const [id, timer] of [...this.timers].sort(([, a], [, b]) => a.at - b.at)) {
+            if (timer.at <= this.now) {
+                this.timers.delete(id);
+                timer.callback();
+            }
+        }
+        await flush();
+    }
+
+    get pending(): number {
+        return this.timers.size;
+    }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * A Clock whose timers fire on the next tick, recording every scheduled delay.
+ */
+const instantClock = (): Clock & { delays: number[] } => {
+    const delays: number[] = [];
+    return {
+        delays,
+        setTimeout: (callback, ms) => {
+            delays.push(ms);
+            return setImmediate(callback);
+        },
+        clearTimeout: handle => clearImmediate(handle as ReturnType<typeof setImmediate>),
+    };
+};
+
+describe("retry", () => {
+    const failingTimes = (times: number) => jest.fn(async (attempt: number) =>
+        attempt <= times ? Result.Err<string, string>(`failure ${attempt}`) : Result.Ok<string, string>(`success ${attempt}`)
+    );
+
+    test("should return the first Ok without waiting", async () => {
+        const clock = instantClock();
+        const op = failingTimes(0);
+        expect((await Result.retry(op, { clock })).unwrap()).toBe("success 1");
+        expect(op).toHaveBeenCalledTimes(1);
+        expect(clock.delays).toEqual([]);
+    });
+
+    test("should retry until Ok with exponential backoff", async () => {
+        const clock = instantClock();
+        const op = failingTimes(3);
+        const res = await Result.retry(op, { attempts: 5, delay: 10, clock });
+        expect(res.unwrap()).toBe("success 4");
+        expect(clock.delays).toEqual([10, 20, 40]);
+    });
+
+    test("should support constant, linear and custom backoff with a maximum delay", async () => {
+        const constant = instantClock();
+        await Result.retry(failingTimes(3), { attempts: 4, delay: 10, backoff: "constant", clock: constant });
+        expect(constant.delays).toEqual([10, 10, 10]);
+
+        const linear = instantClock();
+        await Result.retry(failingTimes(3), { attempts: 4, delay: 10, backoff: "linear", maxDelay: 25, clock: linear });
+        expect(linear.delays).toEqual([10, 20, 25]);
+
+        const custom = instantClock();
+        await Result.retry(failingTimes(2), { delay: 10, backoff: (attempt, delay) => delay + attempt, clock: custom });
+        expect(custom.delays).toEqual([11, 12]);
+    });
+
+    test("should apply jitter from the injected random source", async () => {
+        const clock = instantClock();
+        await Result.retry(failingTimes(2), { delay: 100, jitter: true, random: () => 0.5, clock });
+        expect(clock.delays).toEqual([50, 100]);
+    });
+
+    test("should return a RetryError with every error once attempts are exhausted", async () => {
+        const res = await Result.retry(failingTimes(5), { attempts: 3, clock: instantClock() });
+        const err = res.unwrapErr() as RetryError<string>;
+        expect(err).toBeInstanceOf(RetryError);
+        expect(err.errors).toEqual(["failure 1", "failure 2", "failure 3"]);
+        expect(err.cause).toBe("failure 3");
+        expect(err.message).toBe("Failed after 3 attempt(s)");
+    });
+
+    test("should stop when an error should not be retried", async () => {
+        const op = failingTimes(5);
+        const res = await Result.retry(op, { attempts: 5, shouldRetry: err => err !== "failure 2", clock: instantClock() });
+        expect((res.unwrapErr() as RetryError<string>).errors).toEqual(["failure 1", "failure 2"]);
+        expect(op).toHaveBeenCalledTimes(2);
+    });
+
+    test("should wait on the clock between attempts", async () => {
+        const clock = new FakeClock();
+        const op = failingTimes(1);
+        const res = Result.retry(op, { delay: 1000, clock });
+        await flush();
+        expect(op).toHaveBeenCalledTimes(1);
+        await clock.advance(999);
+        expect(op).toHaveBeenCalledTimes(1);
+        await clock.advance(1);
+        expect((await res).unwrap()).toBe("success 2");
+    });
+
+    test("should stop waiting and return an AbortError when aborted", async () => {
+        const clock = new FakeClock();
+        const controller = new AbortController();
+        const op = failingTimes(5);
+        const res = Result.retry(op, { delay: 1000, clock, signal: controller.signal });
+        await flush();
+        controller.abort("shutting down");
+        const err = (await res).unwrapErr();
+        expect(err).toBeInstanceOf(AbortError);
+        expect(err.cause).toBe("shutting down");
+        expect(op).toHaveBeenCalledTimes(1);
+        expect(clock.pending).toBe(0);
+    });
+
+    test("should return an AbortError without waiting when aborted during an attempt", async () => {
+        const clock = new FakeClock();
+        const controller = new AbortController();
+        const op = jest.fn((attempt: number) => {
+            controller.abort("shutting down");
+            return Result.Err<string, string>(`failure ${attempt}`);
+        });
+        const res = Result.retry(op, { delay: 1000, clock, signal: controller.signal });
+        await flush();
+        expect(clock.delays).toEqual([]);
+        const err = (await res).unwrapErr();
+        expect(err).toBeInstanceOf(AbortError);
+        expect(err.cause).toBe("shutting down");
+        expect(op).toHaveBeenCalledTimes(1);
+        expect(clock.pending).toBe(0);
+    });
+
+    test("should not call the operation when already aborted", async () => {
+        const op = failingTimes(0);
+        const res = await Result.retry(op, { signal: AbortSignal.abort() });
+        expect(res.unwrapErr()).toBeInstanceOf(AbortError);
+        expect(op).not.toHaveBeenCalled();
+    });
+
+    test("should pass the attempt and the signal to the operation", async () => {
+        const controller = new AbortController();
+        const op = jest.fn((attempt: number, signal?: AbortSignal) => Result.Ok<[number, AbortSignal | undefined], string>([attempt, signal]));
+        expect((await Result.retry(op, { signal: controller.signal })).unwrap()).toEqual([1, controller.signal]);
+    });
+});
+
+describe("timeout", () => {
+    test("should return the Result when it settles in time", async () => {
+        const clock = new FakeClock();
+        const res = Result.timeout(AsyncResult.Ok<number, string>(1), 100, { clock });
+        expect((await res).unwrap()).toBe(1);
+        expect(clock.pending).toBe(0);
+    });
+
+    test("should return a TimeoutError when it does not settle in time", async () => {
+        const clock = new FakeClock();
+        const never = new Promise<Result<number, string>>(() => undefined);
+        const res = Result.timeout(never, 100, { clock });
+        await clock.advance(100);
+        const err = (await res).unwrapErr() as TimeoutError;
+        expect(err).toBeInstanceOf(TimeoutError);
+        expect(err._tag).toBe("TimeoutError");
+        expect(err.ms).toBe(100);
+        expect(err.message).toBe("Timed out after 100ms");
+    });
+
+    test("should return an AbortError when aborted", async () => {
+        const clock = new FakeClock();
+        const controller = new AbortController();
+        const never = new Promise<Result<number, string>>(() => undefined);
+        const res = Result.timeout(never, 100, { clock, signal: controller.signal });
+        controller.abort();
+        expect((await res).unwrapErr()).toBeInstanceOf(AbortError);
+        expect(clock.pending).toBe(0);
+    });
+
+    test("should propagate rejections", async () => {
+        await expect(Result.timeout(Promise.reject(new Error("boom")), 100, { clock: new FakeClock() })).rejects.toThrow("boom");
+    });
+});
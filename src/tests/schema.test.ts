@@ -0,0 +1,102 @@
+import { describe, expect, test } from "@jest/globals";
+import { Infer, Result, ResultParseError, Schema, defineError } from "../index";
+
+describe("Schema", () => {
+    const user = Schema.object({
+        name: Schema.string().refine(name => name.length > 0, "Must not be empty"),
+        age: Schema.number().refine(Number.isInteger, "Must be an integer"),
+        email: Schema.string().optional(),
+        roles: Schema.array(Schema.union(Schema.literal("admin"), Schema.literal("user"))),
+    });
+    type User = Infer<typeof user>;
+
+    describe("primitives", () => {
+        test("should accept values of the right type", () => {
+            expect(Schema.string().parse("a").unwrap()).toBe("a");
+            expect(Schema.number().parse(1).unwrap()).toBe(1);
+            expect(Schema.boolean().parse(false).unwrap()).toBe(false);
+            expect(Schema.literal(null).parse(null).unwrap()).toBeNull();
+        });
+
+        test("should reject values of the wrong type", () => {
+            expect(Schema.string().parse(1).unwrapErr()).toEqual([{ path: [], message: "Expected a string" }]);
+            expect(Schema.number().parse(NaN).unwrapErr()).toEqual([{ path: [], message: "Expected a number" }]);
+            expect(Schema.boolean("Nope").parse("true").unwrapErr()).toEqual([{ path: [], message: "Nope" }]);
+            expect(Schema.literal("a").parse("b").unwrapErr()).toEqual([{ path: [], message: 'Expected "a"' }]);
+        });
+    });
+
+    describe("object", () => {
+        test("should infer and return the validated object", () => {
+            const res: Result<User, unknown> = user.parse({ name: "Ada", age: 36, roles: ["admin"], extra: true });
+            expect(res.unwrap()).toEqual({ name: "Ada", age: 36, roles: ["admin"] });
+        });
+
+        test("should keep optional fields when present", () => {
+            expect(user.parse({ name: "Ada", age: 36, email: "ada@example.com", roles: [] }).unwrap().email).toBe("ada@example.com");
+        });
+
+        test("should accumulate every field error with its path", () => {
+            const res = user.parse({ name: "", age: 36.5, email: 1, roles: ["admin", "root"] });
+            expect(res.unwrapErr()).toEqual([
+                { path: ["name"], message: "Must not be empty" },
+                { path: ["age"], message: "Must be an integer" },
+                { path: ["email"], message: "Expected a string" },
+                { path: ["roles", 1], message: "Expected a value matching one of the union variants" },
+            ]);
+        });
+
+        test("should reject non-objects", () => {
+            expect(user.parse([]).unwrapErr()).toEqual([{ path: [], message: "Expected an object" }]);
+        });
+    });
+
+    describe("array", () => {
+        test("should validate every item", () => {
+            expect(Schema.array(Schema.number()).parse([1, 2]).unwrap()).toEqual([1, 2]);
+            expect(Schema.array(Schema.number()).parse([1, "2", "3"]).unwrapErr()).toEqual([
+                { path: [1], message: "Expected a number" },
+                { path: [2], message: "Expected a number" },
+            ]);
+        });
+    });
+
+    describe("refine / map / fromGuard", () => {
+        test("should only refine values accepted by the base schema", () => {
+            const positive = Schema.number().refine(x => x > 0, "Must be positive");
+            expect(positive.parse("1").unwrapErr()).toEqual([{ path: [], message: "Expected a number" }]);
+            expect(positive.parse(-1).unwrapErr()).toEqual([{ path: [], message: "Must be positive" }]);
+        });
+
+        test("should transform accepted values", () => {
+            expect(Schema.string().map(Number).parse("42").unwrap()).toBe(42);
+        });
+
+        test("should create a schema from a type guard", () => {
+            const date = Schema.fromGuard((value): value is Date => value instanceof Date, "Expected a date");
+            expect(date.parse(new Date(0)).isOk()).toBe(true);
+            expect(date.parse(0).unwrapErr()).toEqual([{ path: [], message: "Expected a date" }]);
+        });
+    });
+
+    describe("integrations", () => {
+        test("should validate payloads in Result.fromJSON", () => {
+            const raw = JSON.stringify(Result.Ok({ name: "Ada", age: 36, roles: [] }));
+            expect(Result.fromJSON<User, string>(raw, { validateOk: user }).unwrap().name).toBe("Ada");
+
+            const err = Result.fromJSON({ ok: true, value: { name: 1 } }, { validateOk: user }).unwrapErr() as ResultParseError;
+            expect(err).toBeInstanceOf(ResultParseError);
+            expect(err.cause).toEqual([
+                { path: ["name"], message: "Expected a string" },
+                { path: ["age"], message: "Expected a number" },
+                { path: ["roles"], message: "Expected an array" },
+            ]);
+        });
+
+        test("should check the fields of tagged errors", () => {
+            const NotFound = defineError("NotFound", Schema.object({ id: Schema.number() }));
+            expect(new NotFound({ id: 3 }).id).toBe(3);
+            expect(() => new NotFound({ id: "3" } as unknown as { id: number })).toThrow(TypeError);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import {
+    FileNotFound,
+    HttpError,
+    IsADirectory,
+    JsonSyntaxError,
+    safeBigInt,
+    safeDecodeURIComponent,
+    safeFetch,
+    safeJsonParse,
+    safeReadFile,
+    safeStructuredClone,
+    safeUrl,
+} from "../std";
+
+describe("std", () => {
+    test("safeJsonParse", () => {
+        expect(safeJsonParse("{\"a\":1}").unwrap()).toEqual({ a: 1 });
+        expect(safeJsonParse("[1]", (_, value) => typeof value === "number" ? value * 2 : value).unwrap()).toEqual([2]);
+        const err = safeJsonParse("{").unwrapErr();
+        expect(err).toBeInstanceOf(JsonSyntaxError);
+        expect(err._tag).toBe("JsonSyntaxError");
+        expect(err.cause).toBeInstanceOf(SyntaxError);
+    });
+
+    test("safeUrl", () => {
+        expect(safeUrl("/path", "https://example.com").unwrap().href).toBe("https://example.com/path");
+        const err = safeUrl("not a url").unwrapErr();
+        expect(err._tag).toBe("InvalidUrl");
+        expect(err.input).toBe("not a url");
+    });
+
+    test("safeBigInt", () => {
+        expect(safeBigInt("42").unwrap()).toBe(42n);
+        expect(safeBigInt(1.5).unwrapErr()._tag).toBe("InvalidBigInt");
+        expect(safeBigInt("abc").unwrapErr().input).toBe("abc");
+    });
+
+    test("safeDecodeURIComponent", () => {
+        expect(safeDecodeURIComponent("a%20b").unwrap()).toBe("a b");
+        expect(safeDecodeURIComponent("%E0%A4%A").unwrapErr()._tag).toBe("MalformedUri");
+    });
+
+    test("safeStructuredClone", () => {
+        const value = { nested: { items: [1, 2] } };
+        const clone = safeStructuredClone(value).unwrap();
+        expect(clone.nested.items).toEqual([1, 2]);
+        expect(clone.nested).not.toBe(value.nested);
+        expect(safeStructuredClone({ fn: () => 1 }).unwrapErr()._tag).toBe("DataCloneError");
+    });
+
+    describe("safeReadFile", () => {
+        test("should read the file", async () => {
+            expect((await safeReadFile(__filename, "utf8")).unwrap()).toContain("safeReadFile");
+            expect(Buffer.isBuffer((await safeReadFile(__filename)).unwrap())).toBe(true);
+        });
+
+        test("should map system errors to tagged errors", async () => {
+            const missing = (await safeReadFile(`${__filename}.missing`)).unwrapErr();
+            expect(missing).toBeInstanceOf(FileNotFound);
+            expect(missing.path).toBe(`${__filename}.missing`);
+            expect((await safeReadFile(os.tmpdir())).unwrapErr()).toBeInstanceOf(IsADirectory);
+        });
+    });
+
+    describe("safeFetch", () => {
+        let server: Server;
+        let base: string;
+
+        beforeAll(async () => {
+            server = createServer((req, res) => {
+                res.statusCode = req.url === "/missing" ? 404 : 200;
+                res.end(req.url);
+            });
+            await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+            base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        test("should return the response", async () => {
+            const response = (await safeFetch(`${base}/ok`)).unwrap();
+            expect(await response.text()).toBe("/ok");
+        });
+
+        test("should return an HttpError for unsuccessful statuses", async () => {
+            const err = (await safeFetch(new URL("/missing", base))).unwrapErr();
+            expect(err).toBeInstanceOf(HttpError);
+            expect((err as HttpError).status).toBe(404);
+            expect(await (err as HttpError).response.text()).toBe("/missing");
+        });
+
+        test("should return a NetworkError or an AbortError", async () => {
+            expect((await safeFetch("http://127.0.0.1:1")).unwrapErr()._tag).toBe("NetworkError");
+            const controller = new AbortController();
+            controller.abort();
+            expect((await safeFetch(`${base}/ok`, { signal: controller.signal })).unwrapErr()._tag).toBe("AbortError");
+        });
+
+        test("should honor the signal of a Request along with the one of init", async () => {
+            const aborted = new AbortController();
+            aborted.abort("cancelled");
+            const request = new Request(`${base}/ok`, { signal: aborted.signal });
+            const err = (await safeFetch(request)).unwrapErr();
+            expect(err._tag).toBe("AbortError");
+            expect(err.cause).toBe("cancelled");
+            const other = new AbortController();
+            expect((await safeFetch(request, { signal: other.signal })).unwrapErr()._tag).toBe("AbortError");
+            expect((await safeFetch(new Request(`${base}/ok`), { signal: aborted.signal })).unwrapErr()._tag).toBe("AbortError");
+            expect((await safeFetch(new Request(`${base}/ok`), { signal: other.signal })).isOk()).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "@jest/globals";
+import { Result, UnwrapError, Validated } from "../index";
+
+interface FieldError {
+    field: string,
+    message: string
+}
+
+const validateName = (name: string): Validated<string, FieldError> =>
+    name.length > 0 ? Validated.Valid(name) : Validated.Invalid({ field: "name", message: "required" });
+
+const validateAge = (age: number): Result<number, FieldError> =>
+    age >= 0 ? Result.Ok(age) : Result.Err({ field: "age", message: "must be positive" });
+
+describe("Validated", () => {
+    describe("constructors", () => {
+        test("should create valid and invalid values", () => {
+            expect(Validated.Valid(1).unwrap()).toBe(1);
+            expect(Validated.Invalid("a", "b").unwrapErrors()).toEqual(["a", "b"]);
+            expect(Validated.Valid(1).isValid()).toBe(true);
+            expect(Validated.Invalid("a").isInvalid()).toBe(true);
+            expect(Validated.Valid(1).errors).toBeUndefined();
+            expect(Validated.Invalid("a").value).toBeUndefined();
+        });
+
+        test("should throw when unwrapping the wrong variant", () => {
+            expect(() => Validated.Invalid("a", "b").unwrap()).toThrow(UnwrapError);
+            expect(() => Validated.Invalid("a", "b").unwrap()).toThrow("Called Validated.unwrap() on an Invalid value: [\"a\", \"b\"]");
+            expect(() => Validated.Valid(1).unwrapErrors()).toThrow("Called Validated.unwrapErrors() on a Valid value: 1");
+            expect(Validated.Invalid<number, string>("a").unwrapOr(2)).toBe(2);
+        });
+    });
+
+    describe("combining", () => {
+        test("should accumulate the errors of every invalid value", () => {
+            const res = Validated.all([validateName(""), validateAge(-1), Validated.Valid<boolean, FieldError>(true)]);
+            expect(res.unwrapErrors().map(err => err.field)).toEqual(["name", "age"]);
+        });
+
+        test("should preserve tuple types", () => {
+            const res: Validated<[string, number], FieldError> = Validated.all([validateName("Ada"), validateAge(36)]);
+            expect(res.unwrap()).toEqual(["Ada", 36]);
+        });
+
+        test("should preserve the object type with struct", () => {
+            const valid: Validated<{ name: string, age: number }, FieldError> = Validated.struct({ name: validateName("Ada"), age: validateAge(36) });
+            expect(valid.unwrap()).toEqual({ name: "Ada", age: 36 });
+            const invalid = Validated.struct({ name: validateName(""), age: validateAge(-1) });
+            expect(invalid.unwrapErrors()).toEqual([
+                { field: "name", message: "required" },
+                { field: "age", message: "must be positive" },
+            ]);
+        });
+
+        test("should zip two values", () => {
+            expect(validateName("Ada").zip(validateAge(36)).unwrap()).toEqual(["Ada", 36]);
+            expect(validateName("").zip(validateAge(-1)).unwrapErrors()).toHaveLength(2);
+            expect(validateName("Ada").zipWith(validateAge(36), (name, age) => `${name} (${age})`).unwrap()).toBe("Ada (36)");
+        });
+    });
+
+    describe("transforming", () => {
+        test("should map values and errors", () => {
+            expect(Validated.Valid<number, string>(1).map(x => x + 1).unwrap()).toBe(2);
+            expect(Validated.Invalid<number, string>("a", "b").mapErr(err => err.toUpperCase()).unwrapErrors()).toEqual(["A", "B"]);
+            expect(Validated.Invalid<number, string>("a").map(x => x + 1).unwrapErrors()).toEqual(["a"]);
+        });
+
+        test("should stop at the first invalid step with andThen", () => {
+            const checkAdult = (age: number) => age >= 18 ? Result.Ok<number, FieldError>(age) : Result.Err<number, FieldError>({ field: "age", message: "must be an adult" });
+            expect(Validated.fromResult(validateAge(36)).andThen(checkAdult).unwrap()).toBe(36);
+            expect(Validated.fromResult(validateAge(10)).andThen(checkAdult).unwrapErrors()[0].message).toBe("must be an adult");
+            expect(Validated.fromResult(validateAge(-1)).andThen(checkAdult).unwrapErrors()[0].message).toBe("must be positive");
+        });
+    });
+
+    describe("conversions", () => {
+        test("should convert to and from Result", () => {
+            expect(Result.Ok(1).toValidated().unwrap()).toBe(1);
+            expect(Result.Err("a").toValidated().unwrapErrors()).toEqual(["a"]);
+            expect(Validated.Invalid("a", "b").toResult().unwrapErr()).toEqual(["a", "b"]);
+            expect(Validated.Valid(1).toResult().unwrap()).toBe(1);
+        });
+
+        test("should format like the other types", () => {
+            expect(Validated.Valid(1).toString()).toBe("Valid(1)");
+            expect(`${Validated.Invalid("a")}`).toBe("Invalid([\"a\"])");
+        });
+    });
+});
@@ -0,0 +1,290 @@
+import { Result } from "./result";
+import { panic } from "./hooks";
+import { formatValue, inspectSymbol } from "./format";
+
+enum ValidatedType {
+    Valid = "Valid",
+    Invalid = "Invalid"
+}
+
+/**
+ * An array with at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+interface Valid<T> {
+    type: ValidatedType.Valid,
+    value: T
+}
+
+interface Invalid<E> {
+    type: ValidatedType.Invalid,
+    errors: NonEmptyArray<E>
+}
+
+type ValidatedValue<T, E> = Valid<T> | Invalid<E>;
+
+/**
+ * Either a Validated or a Result, as accepted by Validated.all and Validated.struct.
+ */
+export type Validation<T, E> = Validated<T, E> | Result<T, E>;
+
+/**
+ * Extracts the type of the value of a Validated or a Result.
+ */
+type ValidValue<V> = V extends Validated<infer T, unknown> ? T : V extends Result<infer T, unknown> ? T : never;
+
+/**
+ * Extracts the type of the errors of a Validated or a Result.
+ */
+type InvalidValue<V> = V extends Validated<unknown, infer E> ? E : V extends Result<unknown, infer E> ? E : never;
+
+/**
+ * Either a valid value of type T, or a non-empty list of errors of type E.
+ *
+ * Unlike a Result, which stops at the first Err, combining Validated values with zip, all or struct accumulates the errors of every invalid one.
+ */
+export class Validated<T, E> {
+    private validatedValue: ValidatedValue<T, E>;
+
+    private constructor(validatedValue: ValidatedValue<T, E>) {
+        this.validatedValue = validatedValue;
+    }
+
+    /**
+     * Creates a valid Validated with the provided value.
+     *
+     * @param value - The valid value to store.
+     * @returns A valid Validated.
+     */
+    static Valid<T, E>(value: T): Validated<T, E> {
+        return new Validated<T, E>({ type: ValidatedType.Valid, value });
+    }
+
+    /**
+     * Creates an invalid Validated with the provided errors.
+     *
+     * @param errors - At least one error.
+     * @returns An invalid Validated.
+     */
+    static Invalid<T, E>(...errors: NonEmptyArray<E>): Validated<T, E> {
+        return new Validated<T, E>({ type: ValidatedType.Invalid, errors });
+    }
+
+    /**
+     * Converts a Result into a Validated, so it can accumulate errors with others.
+     *
+     * @param result - The Result to convert.
+     * @returns A valid Validated containing the value if Ok, otherwise an invalid Validated containing the error.
+     */
+    static fromResult<T, E>(result: Result<T, E>): Validated<T, E> {
+        return result.isErr() ? Validated.Invalid<T, E>(result.error) : Validated.Valid<T, E>(result.unwrapUnchecked());
+    }
+
+    /**
+     * Combines a list of Validated values or Results into a single Validated of a list of values.
+     * Every error of every invalid item is collected, in order.
+     *
+     * The types of tuples are preserved, so `Validated.all([a, b])` yields `Validated<[A, B], EA | EB>`.
+     *
+     * @param items - The Validated values or Results to combine.
+     * @returns A valid Validated containing every value, or an invalid Validated containing every error.
+     */
+    static all<V extends readonly Validation<unknown, unknown>[]>(items: readonly [...V]): Validated<{ -readonly [K in keyof V]: ValidValue<V[K]> }, InvalidValue<V[number]>> {
+        const values: unknown[] = [];
+        const errors: unknown[] = [];
+        for (const item of items) {
+            const validated = item instanceof Result ? Validated.fromResult(item) : item as Validated<unknown, unknown>;
+            if (validated.validatedValue.type === ValidatedType.Invalid) {
+                errors.push(...validated.validatedValue.errors);
+            } else {
+                values.push(validated.validatedValue.value);
+            }
+        }
+        return errors.length > 0
+            ? new Validated({ type: ValidatedType.Invalid, errors: errors as NonEmptyArray<InvalidValue<V[number]>> })
+            : Validated.Valid(values as { -readonly [K in keyof V]: ValidValue<V[K]> });
+    }
+
+    /**
+     * Combines an object of Validated values or Results into a single Validated of an object of values, preserving the key of every field.
+     * Every error of every invalid field is collected, in the order of the keys.
+     *
+     * ```
+     * Validated.struct({ name: validateName(input.name), age: validateAge(input.age) }); // Validated<{ name: string, age: number }, FieldError>
+     * ```
+     *
+     * @param fields - The Validated value or Result of every field.
+     * @returns A valid Validated containing an object of every value, or an invalid Validated containing every error.
+     */
+    static struct<S extends Record<string, Validation<unknown, unknown>>>(fields: S): Validated<{ [K in keyof S]: ValidValue<S[K]> }, InvalidValue<S[keyof S]>> {
+        const keys = Object.keys(fields);
+        return Validated.all(keys.map(key => fields[key])).map(values => {
+            const output: Record<string, unknown> = {};
+            keys.forEach((key, index) => {
+                output[key] = values[index];
+            });
+            return output as { [K in keyof S]: ValidValue<S[K]> };
+        }) as Validated<{ [K in keyof S]: ValidValue<S[K]> }, InvalidValue<S[keyof S]>>;
+    }
+
+    /**
+     * The contained value if the Validated is valid, otherwise undefined.
+     */
+    get value(): T | undefined {
+        return this.validatedValue.type === ValidatedType.Valid ? this.validatedValue.value : undefined;
+    }
+
+    /**
+     * The contained errors if the Validated is invalid, otherwise undefined.
+     */
+    get errors(): NonEmptyArray<E> | undefined {
+        return this.validatedValue.type === ValidatedType.Invalid ? this.validatedValue.errors : undefined;
+    }
+
+    /**
+     * Checks whether the Validated is valid.
+     *
+     * @returns True if valid, otherwise false.
+     */
+    isValid(): boolean {
+        return this.validatedValue.type === ValidatedType.Valid;
+    }
+
+    /**
+     * Checks whether the Validated is invalid.
+     *
+     * @returns True if invalid, otherwise false.
+     */
+    isInvalid(): boolean {
+        return this.validatedValue.type === ValidatedType.Invalid;
+    }
+
+    /**
+     * Unwraps the Validated, returning the contained value if it is valid.
+     *
+     * @throws Will throw an UnwrapError, with the contained errors as its cause, if the Validated is invalid.
+     * @returns The contained value if valid.
+     */
+    unwrap(): T {
+        if (this.validatedValue.type === ValidatedType.Invalid) {
+            panic(`Called Validated.unwrap() on an Invalid value: ${formatValue(this.validatedValue.errors)}`, this.validatedValue.errors);
+        }
+        return this.validatedValue.value;
+    }
+
+    /**
+     * Unwraps the Validated, returning the contained errors if it is invalid.
+     *
+     * @throws Will throw an UnwrapError if the Validated is valid.
+     * @returns The contained errors if invalid.
+     */
+    unwrapErrors(): NonEmptyArray<E> {
+        if (this.validatedValue.type === ValidatedType.Invalid) {
+            return this.validatedValue.errors;
+        }
+        panic(`Called Validated.unwrapErrors() on a Valid value: ${formatValue(this.validatedValue.value)}`);
+    }
+
+    /**
+     * Returns the contained value if valid, otherwise the provided default value.
+     *
+     * @param defaultValue - The default value to return if the Validated is invalid.
+     * @returns The contained value if valid, or the default value if invalid.
+     */
+    unwrapOr(defaultValue: T): T {
+        return this.validatedValue.type === ValidatedType.Valid ? this.validatedValue.value : defaultValue;
+    }
+
+    /**
+     * Transforms the value if valid, leaving the errors unchanged.
+     *
+     * @param op - A function that transforms the value.
+     * @returns A new Validated with the transformed value if valid, otherwise the same errors.
+     */
+    map<U>(op: (value: T) => U): Validated<U, E> {
+        if (this.validatedValue.type === ValidatedType.Invalid) {
+            return new Validated<U, E>(this.validatedValue);
+        }
+        return Validated.Valid(op(this.validatedValue.value));
+    }
+
+    /**
+     * Transforms every error if invalid, leaving the value unchanged.
+     *
+     * @param op - A function that transforms a single error.
+     * @returns A new Validated with the transformed errors if invalid, otherwise the same value.
+     */
+    mapErr<F>(op: (err: E) => F): Validated<T, F> {
+        if (this.validatedValue.type === ValidatedType.Valid) {
+            return new Validated<T, F>(this.validatedValue);
+        }
+        return new Validated<T, F>({ type: ValidatedType.Invalid, errors: this.validatedValue.errors.map(op) as NonEmptyArray<F> });
+    }
+
+    /**
+     * Validates the value further with a check which depends on it. Like Result.andThen, this stops at the first invalid step,
+     * so the check is only called if the Validated is valid.
+     *
+     * @param op - A function that receives the value and returns a Validated or a Result.
+     * @returns The Validated produced by the function if valid, otherwise the same errors.
+     */
+    andThen<U>(op: (value: T) => Validation<U, E>): Validated<U, E> {
+        if (this.validatedValue.type === ValidatedType.Invalid) {
+            return new Validated<U, E>(this.validatedValue);
+        }
+        const next = op(this.validatedValue.value);
+        return next instanceof Result ? Validated.fromResult(next) : next;
+    }
+
+    /**
+     * Combines the Validated with another one into a Validated of a pair, accumulating the errors of both.
+     *
+     * @param other - The other Validated or Result.
+     * @returns A valid Validated containing both values, or an invalid Validated containing the errors of both.
+     */
+    zip<U, F>(other: Validation<U, F>): Validated<[T, U], E | F> {
+        return Validated.all([this, other]) as Validated<[T, U], E | F>;
+    }
+
+    /**
+     * Combines the Validated with another one using a function, accumulating the errors of both.
+     *
+     * @param other - The other Validated or Result.
+     * @param op - A function that combines both values.
+     * @returns A valid Validated containing the combined value, or an invalid Validated containing the errors of both.
+     */
+    zipWith<U, F, R>(other: Validation<U, F>, op: (value: T, otherValue: U) => R): Validated<R, E | F> {
+        return this.zip(other).map(([value, otherValue]) => op(value, otherValue));
+    }
+
+    /**
+     * Converts the Validated into a Result which fails fast with the accumulated errors.
+     *
+     * @returns Ok containing the value if valid, otherwise Err containing every error.
+     */
+    toResult(): Result<T, NonEmptyArray<E>> {
+        if (this.validatedValue.type === ValidatedType.Invalid) {
+            return Result.Err(this.validatedValue.errors);
+        }
+        return Result.Ok(this.validatedValue.value);
+    }
+
+    /**
+     * Formats the Validated for debugging, e.g. `Valid(42)` or `Invalid(["too short"])`.
+     *
+     * @returns A readable representation of the variant and its contents.
+     */
+    toString(): string {
+        return formatValue(this);
+    }
+
+    /**
+     * Lets console.log and util.inspect in Node print the Validated like toString does, instead of its internals.
+     *
+     * @returns A readable representation of the variant and its contents.
+     */
+    [inspectSymbol](): string {
+        return formatValue(this);
+    }
+}
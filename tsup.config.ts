@@ -1,10 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-    entry: ["src/index.ts"],
+    entry: ["src/index.ts", "src/std.ts", "src/operators.ts", "src/eslint-plugin.ts"],
     format: ["esm", "cjs"],
     dts: true,
-    splitting: false,
+    // All entry points must share a single copy of Result, so that instanceof checks work across them
+    splitting: true,
     sourcemap: true,
     clean: true,
 });